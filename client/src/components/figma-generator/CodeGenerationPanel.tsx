@@ -1,6 +1,12 @@
-import React, { useState } from 'react';
-import { FigmaApiResponse, GeneratedComponent } from '@/types/figma';
-import { AdvancedCodeGenerator, CodeGenerationOptions } from '@/services/advanced-code-generator';
+import React, { useState, useRef, useEffect } from 'react';
+import { FigmaApiResponse, GeneratedComponent } from '@/types/types';
+import {
+  angularFileName,
+  customElementName,
+  dartFileName,
+  type CodeGenerationOptions,
+} from '@/services/advanced-code-generator';
+import { useCodeGeneration } from '@/hooks/useCodeGeneration';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -22,7 +28,8 @@ import {
   FileCode,
   Palette,
   Plus,
-  FileText
+  FileText,
+  Square
 } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { tomorrow } from 'react-syntax-highlighter/dist/esm/styles/prism';
@@ -55,7 +62,8 @@ export function CodeGenerationPanel({ figmaData, fileKey }: CodeGenerationPanelP
     cssAdvanced: ''
   });
 
-  const [isGenerating, setIsGenerating] = useState(false);
+  const { isGenerating, generateFromFigma } = useCodeGeneration();
+  const runController = useRef<AbortController | null>(null);
   const [generatedComponents, setGeneratedComponents] = useState<GeneratedComponent[]>([]);
   const [selectedComponent, setSelectedComponent] = useState<GeneratedComponent | null>(null);
   const [activeTab, setActiveTab] = useState('jsx');
@@ -63,27 +71,34 @@ export function CodeGenerationPanel({ figmaData, fileKey }: CodeGenerationPanelP
   const [showCustomInputs, setShowCustomInputs] = useState(false);
 
   const handleGenerate = async () => {
-    setIsGenerating(true);
-    
-    try {
-      const generator = new AdvancedCodeGenerator(figmaData, options);
-      
-      // Egyéni kód hozzáadása a generáláshoz
-      generator.setCustomCode(customCode);
-      
-      const components = generator.generateComponents();
-      
-      setGeneratedComponents(components);
-      if (components.length > 0) {
-        setSelectedComponent(components[0]);
-      }
-    } catch (error) {
-      console.error('Kódgenerálási hiba:', error);
-    } finally {
-      setIsGenerating(false);
+    runController.current?.abort();
+    const controller = new AbortController();
+    runController.current = controller;
+
+    // Egyéni kód hozzáadása a generáláshoz
+    const result = await generateFromFigma({
+      figmaData,
+      fileKey,
+      options,
+      customJsx: customCode.jsx,
+      customCss: customCode.css,
+      fullCss: customCode.cssAdvanced
+    }, controller.signal);
+
+    if (result) {
+      setGeneratedComponents(result.components);
+      setSelectedComponent(result.components[0] ?? null);
     }
   };
 
+  const handleCancel = () => {
+    runController.current?.abort();
+    runController.current = null;
+  };
+
+  // Másik fájlnál a futó generálás eredménye már elavult
+  useEffect(() => () => runController.current?.abort(), [fileKey]);
+
   const handleCopy = async (content: string, type: string) => {
     try {
       await copyToClipboard(content);
@@ -98,26 +113,78 @@ export function CodeGenerationPanel({ figmaData, fileKey }: CodeGenerationPanelP
     downloadFile(content, filename);
   };
 
+  // A fő forrásfájl címkéje, kiterjesztése és kiemelési nyelve framework szerint
+  const getSourceFormat = (): { label: string; extension: string; language: string } => {
+    switch (options.framework) {
+      case 'vue': return { label: 'Vue', extension: '.vue', language: 'markup' };
+      case 'svelte': return { label: 'Svelte', extension: '.svelte', language: 'markup' };
+      case 'html': return { label: 'HTML', extension: '.html', language: 'markup' };
+      case 'angular': return { label: 'Component', extension: '.component.ts', language: 'typescript' };
+      case 'react-native': return options.typescript
+        ? { label: 'React Native', extension: '.tsx', language: 'tsx' }
+        : { label: 'React Native', extension: '.jsx', language: 'jsx' };
+      case 'flutter': return { label: 'Dart', extension: '.dart', language: 'dart' };
+      case 'swiftui': return { label: 'SwiftUI', extension: '.swift', language: 'swift' };
+      case 'compose': return { label: 'Compose', extension: '.kt', language: 'kotlin' };
+      case 'web-components': return options.typescript
+        ? { label: 'Lit', extension: '.ts', language: 'typescript' }
+        : { label: 'Lit', extension: '.js', language: 'javascript' };
+      default: return options.typescript
+        ? { label: 'TSX', extension: '.tsx', language: 'tsx' }
+        : { label: 'JSX', extension: '.jsx', language: 'jsx' };
+    }
+  };
+
   const getFileExtension = (type: string) => {
     switch (type) {
-      case 'jsx': return options.typescript ? '.tsx' : '.jsx';
-      case 'css': return '.css';
+      case 'jsx': return getSourceFormat().extension;
+      case 'template': return '.component.html';
+      case 'css':
+        if (options.framework === 'angular' && options.styling !== 'plain-css') return '.component.scss';
+        return options.framework === 'angular' ? '.component.css' : '.css';
       case 'typescript': return '.d.ts';
       default: return '.txt';
     }
   };
 
+  // Az Angular fájlok a CLI szerint kebab-case nevet kapnak (ahogy a templateUrl is hivatkozza),
+  // a Dart fájlok snake_case-t, a Lit elemek a custom element nevüket
+  const getFileName = (component: GeneratedComponent, type: string) => {
+    const baseName = options.framework === 'angular' ? angularFileName(component.name)
+      : options.framework === 'flutter' ? dartFileName(component.name)
+      : options.framework === 'web-components' ? customElementName(component.name)
+      : component.name;
+    return `${baseName}${getFileExtension(type)}`;
+  };
+
+  const getTabContent = (component: GeneratedComponent, type: string) => {
+    switch (type) {
+      case 'jsx': return component.jsx;
+      case 'template': return component.template || '';
+      case 'css': return component.css;
+      default: return component.typescript || '';
+    }
+  };
+
   const handleDownloadAll = () => {
     if (!selectedComponent) return;
     
     // Összes fájl letöltése ZIP-ben (egyszerűsített verzió)
     const files = [
-      { name: `${selectedComponent.name}${getFileExtension('jsx')}`, content: selectedComponent.jsx },
-      { name: `${selectedComponent.name}.css`, content: selectedComponent.css },
+      { name: getFileName(selectedComponent, 'jsx'), content: selectedComponent.jsx },
     ];
+
+    if (selectedComponent.template) {
+      files.push({ name: getFileName(selectedComponent, 'template'), content: selectedComponent.template });
+    }
+
+    // A Vue, Svelte és Lit komponens stílusai, illetve a natív célok stílusai a komponens fájlban vannak
+    if (!['vue', 'svelte', 'web-components', 'react-native', 'flutter', 'swiftui', 'compose'].includes(options.framework)) {
+      files.push({ name: getFileName(selectedComponent, 'css'), content: selectedComponent.css });
+    }
     
     if (selectedComponent.typescript) {
-      files.push({ name: `${selectedComponent.name}.d.ts`, content: selectedComponent.typescript });
+      files.push({ name: getFileName(selectedComponent, 'typescript'), content: selectedComponent.typescript });
     }
     
     files.forEach(file => {
@@ -146,6 +213,13 @@ export function CodeGenerationPanel({ figmaData, fileKey }: CodeGenerationPanelP
                 <SelectContent>
                   <SelectItem value="react">React</SelectItem>
                   <SelectItem value="vue">Vue.js</SelectItem>
+                  <SelectItem value="svelte">Svelte</SelectItem>
+                  <SelectItem value="angular">Angular</SelectItem>
+                  <SelectItem value="react-native">React Native</SelectItem>
+                  <SelectItem value="flutter">Flutter</SelectItem>
+                  <SelectItem value="swiftui">SwiftUI</SelectItem>
+                  <SelectItem value="compose">Jetpack Compose</SelectItem>
+                  <SelectItem value="web-components">Web Components (Lit)</SelectItem>
                   <SelectItem value="html">HTML</SelectItem>
                 </SelectContent>
               </Select>
@@ -290,23 +364,31 @@ const customElement = <div>Egyéni tartalom</div>;"
               </div>
             )}
 
-            <Button 
-              onClick={handleGenerate}
-              disabled={isGenerating}
-              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 mt-4"
-            >
-              {isGenerating ? (
-                <div className="flex items-center space-x-2">
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  <span>Új Kód Generálása...</span>
-                </div>
-              ) : (
-                <div className="flex items-center space-x-2">
-                  <Code2 className="w-4 h-4" />
-                  <span>Új Kód Generálása</span>
-                </div>
+            <div className="flex items-center space-x-2 mt-4">
+              <Button 
+                onClick={handleGenerate}
+                disabled={isGenerating}
+                className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+              >
+                {isGenerating ? (
+                  <div className="flex items-center space-x-2">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    <span>Új Kód Generálása...</span>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <Code2 className="w-4 h-4" />
+                    <span>Új Kód Generálása</span>
+                  </div>
+                )}
+              </Button>
+              {isGenerating && (
+                <Button variant="outline" onClick={handleCancel}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Megszakítás
+                </Button>
               )}
-            </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -436,10 +518,15 @@ const customElement = <div>Egyéni tartalom</div>;"
                   <div className="flex items-center justify-between mb-4">
                     <TabsList>
                       <TabsTrigger value="jsx">
-                        {options.typescript ? 'TSX' : 'JSX'}
+                        {getSourceFormat().label}
                       </TabsTrigger>
-                      <TabsTrigger value="css">CSS</TabsTrigger>
-                      {options.typescript && (
+                      {selectedComponent.template && (
+                        <TabsTrigger value="template">Template</TabsTrigger>
+                      )}
+                      {selectedComponent.css && (
+                        <TabsTrigger value="css">CSS</TabsTrigger>
+                      )}
+                      {options.typescript && selectedComponent.typescript && (
                         <TabsTrigger value="typescript">Types</TabsTrigger>
                       )}
                     </TabsList>
@@ -448,12 +535,7 @@ const customElement = <div>Egyéni tartalom</div>;"
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => handleCopy(
-                          activeTab === 'jsx' ? selectedComponent.jsx :
-                          activeTab === 'css' ? selectedComponent.css :
-                          selectedComponent.typescript || '',
-                          activeTab
-                        )}
+                        onClick={() => handleCopy(getTabContent(selectedComponent, activeTab), activeTab)}
                       >
                         <Copy className="w-4 h-4 mr-1" />
                         {copied === activeTab ? 'Másolva!' : 'Másolás'}
@@ -462,10 +544,8 @@ const customElement = <div>Egyéni tartalom</div>;"
                         variant="outline"
                         size="sm"
                         onClick={() => handleDownload(
-                          activeTab === 'jsx' ? selectedComponent.jsx :
-                          activeTab === 'css' ? selectedComponent.css :
-                          selectedComponent.typescript || '',
-                          `${selectedComponent.name}${getFileExtension(activeTab)}`
+                          getTabContent(selectedComponent, activeTab),
+                          getFileName(selectedComponent, activeTab)
                         )}
                       >
                         <Download className="w-4 h-4 mr-1" />
@@ -477,7 +557,7 @@ const customElement = <div>Egyéni tartalom</div>;"
                   <TabsContent value="jsx">
                     <div className="max-h-96 overflow-auto rounded-lg">
                       <SyntaxHighlighter
-                        language={options.typescript ? "tsx" : "jsx"}
+                        language={getSourceFormat().language}
                         style={tomorrow}
                         customStyle={{
                           margin: 0,
@@ -490,6 +570,24 @@ const customElement = <div>Egyéni tartalom</div>;"
                     </div>
                   </TabsContent>
 
+                  {selectedComponent.template && (
+                    <TabsContent value="template">
+                      <div className="max-h-96 overflow-auto rounded-lg">
+                        <SyntaxHighlighter
+                          language="markup"
+                          style={tomorrow}
+                          customStyle={{
+                            margin: 0,
+                            borderRadius: '0.5rem',
+                          }}
+                          showLineNumbers
+                        >
+                          {selectedComponent.template}
+                        </SyntaxHighlighter>
+                      </div>
+                    </TabsContent>
+                  )}
+
                   <TabsContent value="css">
                     <div className="max-h-96 overflow-auto rounded-lg">
                       <SyntaxHighlighter
@@ -55,7 +55,7 @@ import {
 
 // Szolgáltatások és Típusok
 import { FigmaApiClient } from '@/services/figma-api';
-import { FigmaApiResponse, GeneratedComponent } from '@/types/figma';
+import { FigmaApiResponse, GeneratedComponent } from '@/types/types';
 import { parseFigmaDocument } from '@/services/figma-parser';
 
 // --- Skéma és Típusok ---
@@ -136,7 +136,7 @@ export function FigmaGenerator() {
       const figmaFileData = await apiClient.getFile(extractedFileKey);
 
       setProcessingPhase('Komponensek generálása...');
-      const generatedComponents = parseFigmaDocument(figmaFileData);
+      const { components: generatedComponents, failures } = parseFigmaDocument(figmaFileData);
 
       const endTime = performance.now();
       const processingTime = Math.round(endTime - startTime);
@@ -158,7 +158,14 @@ export function FigmaGenerator() {
           accuracy: averageAccuracy || 0,
         },
       });
-      showToast('Komponensek sikeresen generálva!', 'success');
+      if (failures.length > 0) {
+        showToast(
+          `${failures.length} komponens generálása sikertelen: ${failures.map((f) => f.name).join(', ')}`,
+          'error'
+        );
+      } else {
+        showToast('Komponensek sikeresen generálva!', 'success');
+      }
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : 'Ismeretlen hiba történt';
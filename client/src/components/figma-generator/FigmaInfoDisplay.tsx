@@ -21,7 +21,7 @@ interface FigmaComponent {
 
 interface FigmaStyle {
   name: string;
-  type: string;
+  styleType: string;
 }
 
 interface FigmaApiResponse {
@@ -256,7 +256,7 @@ const StyleListCard: React.FC<{ styles: Record<string, FigmaStyle> }> = ({ style
               <div key={key} className="p-3 border rounded-lg">
                 <div className="font-medium text-gray-900">{style.name}</div>
                 <Badge variant="outline" className="mt-2 text-xs">
-                  {style.type}
+                  {style.styleType}
                 </Badge>
               </div>
             ))
@@ -1,12 +1,12 @@
 import React from 'react';
 import { Progress } from '@/components/ui/progress';
-import { CheckCircle, AlertCircle, Loader2, Database, Code, Layers } from 'lucide-react';
+import { CheckCircle, AlertCircle, Loader2, Database, Code, Layers, XCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 export interface ProcessingPhase {
   id: number;
   name: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   progress: number;
   error?: string;
 }
@@ -29,6 +29,7 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
     switch (status) {
       case 'completed': return CheckCircle;
       case 'error': return AlertCircle;
+      case 'cancelled': return XCircle;
       case 'processing': return Loader2;
       default: return null;
     }
@@ -38,6 +39,7 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
     switch (status) {
       case 'completed': return 'text-green-600';
       case 'error': return 'text-red-600';
+      case 'cancelled': return 'text-amber-600';
       case 'processing': return 'text-blue-600';
       default: return 'text-gray-400';
     }
@@ -47,6 +49,7 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
     switch (status) {
       case 'completed': return 'bg-green-600';
       case 'error': return 'bg-red-600';
+      case 'cancelled': return 'bg-amber-500';
       case 'processing': return 'bg-blue-600';
       default: return 'bg-gray-300';
     }
@@ -75,6 +78,7 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
                 phase.status === 'processing' && "border-blue-200 bg-blue-50",
                 phase.status === 'completed' && "border-green-200 bg-green-50",
                 phase.status === 'error' && "border-red-200 bg-red-50",
+                phase.status === 'cancelled' && "border-amber-200 bg-amber-50",
                 phase.status === 'pending' && "border-gray-200 bg-gray-50"
               )}>
                 {/* Phase Icon */}
@@ -83,6 +87,7 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
                   phase.status === 'processing' && "bg-blue-100",
                   phase.status === 'completed' && "bg-green-100",
                   phase.status === 'error' && "bg-red-100",
+                  phase.status === 'cancelled' && "bg-amber-100",
                   phase.status === 'pending' && "bg-gray-100"
                 )}>
                   <PhaseIcon className={cn(
@@ -113,6 +118,7 @@ export function ProcessingPipeline({ phases }: ProcessingPipelineProps) {
                         {phase.status === 'processing' && 'Processing'}
                         {phase.status === 'completed' && 'Completed'}
                         {phase.status === 'error' && 'Error'}
+                        {phase.status === 'cancelled' && 'Cancelled'}
                       </span>
                     </div>
                   </div>
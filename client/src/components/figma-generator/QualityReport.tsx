@@ -14,7 +14,7 @@ interface AccessibilityIssue {
 interface GeneratedComponent {
   accessibility: {
     score: number;
-    wcagCompliance: 'A' | 'AA' | 'AAA';
+    wcagCompliance: 'A' | 'AA' | 'AAA' | 'Non-compliant';
     issues: AccessibilityIssue[];
     suggestions: string[];
   };
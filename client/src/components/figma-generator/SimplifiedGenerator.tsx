@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -20,17 +20,19 @@ import {
   CheckCircle,
   Info,
   Plus,
-  FileText
+  FileText,
+  Square
 } from 'lucide-react';
 import { useFigmaApi } from '@/hooks/useFigmaApi';
 import { useCodeGeneration } from '@/hooks/useCodeGeneration';
 import { ErrorAlert } from '@/components/ui/error-alert';
 import { CodeBlock } from '@/components/ui/code-block';
-import { copyToClipboard, downloadFile, generatePackageJson } from '@/utils/helpers';
+import { copyToClipboard, downloadFile, extractFileKeyFromUrl, generatePackageJson } from '@/utils/helpers';
 import { ProcessingPipeline } from './ProcessingPipeline';
 import { QualityReport } from './QualityReport';
 import { CodePreview } from './CodePreview';
 import { FigmaInfoDisplay } from './FigmaInfoDisplay';
+import { CredentialManager } from '@/components/figma/CredentialManager';
 
 const figmaFormSchema = z.object({
   figmaUrl: z
@@ -44,16 +46,8 @@ const figmaFormSchema = z.object({
       },
       'Please enter a valid Figma file or design URL (e.g., https://www.figma.com/design/...)'
     ),
-  apiKey: z
-    .string()
-    .min(1, 'API key required')
-    .refine(
-      (key) => {
-        // Accept both figd_ tokens and legacy tokens
-        return key.startsWith('figd_') || (key.length >= 40 && /^[a-zA-Z0-9-]+$/.test(key));
-      },
-      'Please enter a valid Figma API key'
-    ),
+  // Tokens live encrypted on the server; the form only picks one by id
+  credentialId: z.number({ required_error: 'Select or add a Figma access token' }),
   jsxCode: z.string().optional(),
   cssCode: z.string().optional(),
   fullCssCode: z.string().optional(),
@@ -74,27 +68,55 @@ export function SimplifiedGenerator() {
     resolver: zodResolver(figmaFormSchema),
     defaultValues: {
       figmaUrl: '',
-      apiKey: '',
+      credentialId: undefined,
       jsxCode: '',
       cssCode: '',
       fullCssCode: ''
     }
   });
 
+  const selectCredential = useCallback((credentialId: number | undefined) => {
+    form.setValue('credentialId', credentialId as number, { shouldValidate: form.formState.isSubmitted });
+  }, [form]);
+
+  const runController = useRef<AbortController | null>(null);
+
+  const cancelRun = useCallback(() => {
+    runController.current?.abort();
+    runController.current = null;
+  }, []);
+
   const onSubmit = async (data: FigmaFormData) => {
+    cancelRun();
+    const controller = new AbortController();
+    runController.current = controller;
+
     clearError();
     clearResult();
     
-    const figmaData = await fetchFigmaFile(data.figmaUrl, data.apiKey);
-    if (figmaData) {
+    const figmaData = await fetchFigmaFile(data.figmaUrl, data.credentialId, controller.signal);
+    if (figmaData && !controller.signal.aborted) {
       await generateFromFigma({
         figmaData,
+        fileKey: extractFileKeyFromUrl(data.figmaUrl) ?? undefined,
         customJsx: data.jsxCode,
         customCss: data.cssCode,
         fullCss: data.fullCssCode
-      });
+      }, controller.signal);
+    }
+
+    if (runController.current === controller) {
+      runController.current = null;
     }
   };
+
+  // Results for the previous URL would be stale, so switching files stops the run
+  const figmaUrl = form.watch('figmaUrl');
+  useEffect(() => {
+    cancelRun();
+  }, [figmaUrl, cancelRun]);
+
+  useEffect(() => cancelRun, [cancelRun]);
   
   useEffect(() => {
     if (result && result.css) {
@@ -200,43 +222,12 @@ export function SimplifiedGenerator() {
                   )}
                 </div>
 
-                {/* API Key Input */}
-                <div className="space-y-3">
-                  <Label htmlFor="apiKey" className="flex items-center space-x-2 text-sm font-semibold text-gray-800">
-                    <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
-                    <span>Figma API Access Token</span>
-                  </Label>
-                  <div className="relative">
-                    <Input
-                      id="apiKey"
-                      type="password"
-                      placeholder="Enter your personal access token..."
-                      {...form.register('apiKey')}
-                      className={`
-                        pl-4 pr-4 py-4 text-base border-2 rounded-xl transition-all duration-200
-                        ${form.formState.errors.apiKey 
-                          ? 'border-red-400 bg-red-50 focus:border-red-500 focus:ring-red-200' 
-                          : 'border-gray-200 bg-white hover:border-purple-300 focus:border-purple-500 focus:ring-purple-200'
-                        }
-                        focus:ring-4 focus:outline-none
-                      `}
-                    />
-                    {form.watch('apiKey') && !form.formState.errors.apiKey && (
-                      <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
-                        <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-                      </div>
-                    )}
-                  </div>
-                  {form.formState.errors.apiKey && (
-                    <div className="flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
-                      <Info className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
-                      <div>
-                        <p className="text-sm font-medium text-red-800">Invalid API Key</p>
-                        <p className="text-xs text-red-600 mt-1">{form.formState.errors.apiKey.message}</p>
-                      </div>
-                    </div>
-                  )}
-                </div>
+                {/* API Key */}
+                <CredentialManager
+                  value={form.watch('credentialId')}
+                  onChange={selectCredential}
+                  error={form.formState.errors.credentialId?.message}
+                />
 
                 {/* Help Section */}
                 <div className="bg-gradient-to-br from-blue-50 to-indigo-50 border border-blue-200 rounded-xl p-5">
@@ -423,23 +414,36 @@ export function SimplifiedGenerator() {
                   </div>
                 </div>
 
-                <Button
-                  type="submit"
-                  disabled={isProcessing}
-                  className="w-full bg-gradient-to-r from-primary to-secondary text-white py-4 px-6 rounded-lg font-semibold hover:shadow-lg transition-all duration-200 flex items-center justify-center space-x-2"
-                >
-                  {isProcessing ? (
-                    <>
-                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                      <span>Generating...</span>
-                    </>
-                  ) : (
-                    <>
-                      <Play className="w-5 h-5" />
-                      <span>Generate Component</span>
-                    </>
+                <div className="flex items-center space-x-3">
+                  <Button
+                    type="submit"
+                    disabled={isProcessing}
+                    className="flex-1 bg-gradient-to-r from-primary to-secondary text-white py-4 px-6 rounded-lg font-semibold hover:shadow-lg transition-all duration-200 flex items-center justify-center space-x-2"
+                  >
+                    {isProcessing ? (
+                      <>
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                        <span>Generating...</span>
+                      </>
+                    ) : (
+                      <>
+                        <Play className="w-5 h-5" />
+                        <span>Generate Component</span>
+                      </>
+                    )}
+                  </Button>
+                  {isProcessing && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={cancelRun}
+                      className="py-4 px-6 rounded-lg font-semibold flex items-center space-x-2"
+                    >
+                      <Square className="w-4 h-4" />
+                      <span>Cancel</span>
+                    </Button>
                   )}
-                </Button>
+                </div>
               </CardContent>
             </Card>
 
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Info, KeyRound, Loader2, Plus, RefreshCw, Trash2, XCircle } from 'lucide-react';
+import { useCredentials, type CredentialTestResult } from '@/hooks/useCredentials';
+import { describeApiError, validateFigmaApiKey } from '@/utils/helpers';
+
+interface CredentialManagerProps {
+  value?: number;
+  onChange: (credentialId: number | undefined) => void;
+  error?: string;
+}
+
+// Picks one of the server-side stored Figma tokens; new tokens are sent once and never read back
+export function CredentialManager({ value, onChange, error }: CredentialManagerProps) {
+  const { credentials, isLoading, addMutation, testMutation, rotateMutation, revokeMutation } = useCredentials();
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [label, setLabel] = useState('');
+  const [token, setToken] = useState('');
+  const [rotatingId, setRotatingId] = useState<number | null>(null);
+  const [rotatedToken, setRotatedToken] = useState('');
+  const [testResults, setTestResults] = useState<Record<number, CredentialTestResult>>({});
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Preselect the only token, and drop a selection that was revoked
+  useEffect(() => {
+    if (isLoading) return;
+    if (value !== undefined && !credentials.some((c) => c.id === value)) {
+      onChange(undefined);
+    } else if (value === undefined && credentials.length === 1) {
+      onChange(credentials[0].id);
+    }
+  }, [credentials, isLoading, value, onChange]);
+
+  const handleAdd = async () => {
+    setFormError(null);
+    if (!validateFigmaApiKey(token.trim())) {
+      setFormError('Please enter a valid Figma API key');
+      return;
+    }
+
+    try {
+      const credential = await addMutation.mutateAsync({
+        label: label.trim() || 'Figma token',
+        token: token.trim(),
+      });
+      onChange(credential.id);
+      setLabel('');
+      setToken('');
+      setShowAddForm(false);
+    } catch (err) {
+      setFormError(err instanceof Error ? describeApiError(err) : 'Failed to save token');
+    }
+  };
+
+  const handleTest = async (id: number) => {
+    try {
+      const result = await testMutation.mutateAsync(id);
+      setTestResults((results) => ({ ...results, [id]: result }));
+    } catch (err) {
+      const message = err instanceof Error ? describeApiError(err) : 'Test failed';
+      setTestResults((results) => ({ ...results, [id]: { valid: false, error: message } }));
+    }
+  };
+
+  const handleRotate = async (id: number) => {
+    setFormError(null);
+    if (!validateFigmaApiKey(rotatedToken.trim())) {
+      setFormError('Please enter a valid Figma API key');
+      return;
+    }
+
+    try {
+      await rotateMutation.mutateAsync({ id, token: rotatedToken.trim() });
+      setTestResults(({ [id]: _stale, ...rest }) => rest);
+      setRotatingId(null);
+      setRotatedToken('');
+    } catch (err) {
+      setFormError(err instanceof Error ? describeApiError(err) : 'Failed to rotate token');
+    }
+  };
+
+  const handleRevoke = async (id: number) => {
+    if (!window.confirm('Revoke this token? It will no longer be usable from this app.')) return;
+
+    try {
+      await revokeMutation.mutateAsync(id);
+    } catch (err) {
+      setFormError(err instanceof Error ? describeApiError(err) : 'Failed to revoke token');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="flex items-center space-x-2 text-sm font-semibold text-gray-800">
+        <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
+        <span>Figma API Access Token</span>
+      </Label>
+
+      {isLoading ? (
+        <div className="flex items-center space-x-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Loading saved tokens...</span>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {credentials.map((credential) => {
+            const selected = credential.id === value;
+            const testResult = testResults[credential.id];
+
+            return (
+              <div
+                key={credential.id}
+                className={`p-3 border-2 rounded-xl transition-all duration-200 ${
+                  selected ? 'border-purple-500 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-300'
+                }`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <button
+                    type="button"
+                    onClick={() => onChange(credential.id)}
+                    className="flex items-center space-x-3 text-left flex-1 min-w-0"
+                  >
+                    <KeyRound className={`w-4 h-4 flex-shrink-0 ${selected ? 'text-purple-600' : 'text-gray-400'}`} />
+                    <span className="font-medium text-gray-900 truncate">{credential.label}</span>
+                    <Badge variant="outline" className="font-mono text-xs">{credential.tokenHint}</Badge>
+                  </button>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleTest(credential.id)}
+                      disabled={testMutation.isPending}
+                    >
+                      Test
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      title="Rotate"
+                      onClick={() => {
+                        setRotatingId(rotatingId === credential.id ? null : credential.id);
+                        setRotatedToken('');
+                      }}
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      title="Revoke"
+                      onClick={() => handleRevoke(credential.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  </div>
+                </div>
+
+                {testResult && (
+                  <div className={`flex items-center space-x-2 mt-2 text-xs ${testResult.valid ? 'text-green-700' : 'text-red-600'}`}>
+                    {testResult.valid ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                    <span>
+                      {testResult.valid
+                        ? `Works — signed in to Figma as ${testResult.user?.handle}`
+                        : testResult.error ?? 'Figma rejected this token'}
+                    </span>
+                  </div>
+                )}
+
+                {rotatingId === credential.id && (
+                  <div className="flex items-center space-x-2 mt-3">
+                    <Input
+                      type="password"
+                      placeholder="New personal access token..."
+                      value={rotatedToken}
+                      onChange={(e) => setRotatedToken(e.target.value)}
+                    />
+                    <Button
+                      type="button"
+                      size="sm"
+                      onClick={() => handleRotate(credential.id)}
+                      disabled={rotateMutation.isPending}
+                    >
+                      Replace
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {showAddForm || credentials.length === 0 ? (
+            <div className="p-3 border-2 border-dashed border-gray-200 rounded-xl space-y-2">
+              <Input
+                placeholder="Label (e.g. Work account)"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="password"
+                  placeholder="Enter your personal access token..."
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                />
+                <Button type="button" onClick={handleAdd} disabled={addMutation.isPending || !token}>
+                  {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Save'}
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                The token is encrypted on the server and is never sent back to the browser.
+              </p>
+            </div>
+          ) : (
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowAddForm(true)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add token
+            </Button>
+          )}
+        </div>
+      )}
+
+      {(formError || error) && (
+        <div className="flex items-start space-x-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <Info className="w-4 h-4 text-red-600 mt-0.5 flex-shrink-0" />
+          <p className="text-xs text-red-600">{formError ?? error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ interface AccessibilityIssue {
 interface GeneratedComponent {
   accessibility: {
     score: number;
-    wcagCompliance: 'A' | 'AA' | 'AAA';
+    wcagCompliance: 'A' | 'AA' | 'AAA' | 'Non-compliant';
     issues: AccessibilityIssue[];
     suggestions: string[];
   };
@@ -27,6 +27,8 @@ interface GeneratedComponent {
     complexity: string;
     generationTime: number;
     dependencies: string[];
+    // Missing from components generated before fidelity notes existed
+    fidelityNotes?: string[];
   };
 }
 
@@ -176,6 +178,21 @@ export function QualityReport({ component }: QualityReportProps) {
         </div>
       )}
 
+      {/* Fidelity Notes */}
+      {metadata.fidelityNotes && metadata.fidelityNotes.length > 0 && (
+        <div className="mb-6">
+          <h5 className="text-lg font-semibold text-gray-900 mb-3">Fidelity Notes</h5>
+          <div className="space-y-3">
+            {metadata.fidelityNotes.map((note, index) => (
+              <div key={index} className="flex items-start space-x-3 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                <Info className="w-5 h-5 text-gray-600 mt-0.5" />
+                <span className="text-gray-800">{note}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Component Metadata */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
         <div>
@@ -0,0 +1,95 @@
+import { createContext, ReactNode, useContext } from 'react';
+import { useMutation, UseMutationResult, useQuery } from '@tanstack/react-query';
+import type { InsertUser, User } from '@shared/schema';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { describeApiError } from '@/utils/helpers';
+
+// The server never sends the password hash back
+export type SessionUser = Omit<User, 'password'>;
+
+type AuthContextType = {
+  user: SessionUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<SessionUser, Error, InsertUser>;
+  registerMutation: UseMutationResult<SessionUser, Error, InsertUser>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<SessionUser | null, Error>({
+    queryKey: ['/api/user'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onSignedIn = (signedIn: SessionUser) => {
+    queryClient.setQueryData(['/api/user'], signedIn);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest('POST', '/api/login', credentials);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (err: Error) => {
+      toast({ title: 'Login failed', description: describeApiError(err), variant: 'destructive' });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: InsertUser) => {
+      const res = await apiRequest('POST', '/api/register', credentials);
+      return (await res.json()) as SessionUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (err: Error) => {
+      toast({ title: 'Registration failed', description: describeApiError(err), variant: 'destructive' });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => {
+      // The next user on this browser must not see cached projects
+      queryClient.clear();
+      queryClient.setQueryData(['/api/user'], null);
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Logout failed', description: describeApiError(err), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
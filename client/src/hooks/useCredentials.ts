@@ -0,0 +1,69 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { PublicApiCredential } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+export interface CredentialTestResult {
+  valid: boolean;
+  user?: { id: string; handle: string; email: string };
+  error?: string;
+}
+
+const CREDENTIALS_KEY = ['/api/credentials'];
+
+// Dates arrive as ISO strings over JSON
+export type StoredCredential = Omit<PublicApiCredential, 'createdAt' | 'lastUsedAt' | 'revokedAt'> & {
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
+
+// The Figma tokens stored on the server for the signed-in user
+export function useCredentials() {
+  const { data = [], isLoading, error } = useQuery<StoredCredential[], Error>({
+    queryKey: CREDENTIALS_KEY,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: CREDENTIALS_KEY });
+
+  const addMutation = useMutation({
+    mutationFn: async (input: { label: string; token: string }) => {
+      const res = await apiRequest('POST', '/api/credentials', input);
+      return (await res.json()) as StoredCredential;
+    },
+    onSuccess: invalidate,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest('POST', `/api/credentials/${id}/test`);
+      return (await res.json()) as CredentialTestResult;
+    },
+    // lastUsedAt moved
+    onSettled: invalidate,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async ({ id, token }: { id: number; token: string }) => {
+      const res = await apiRequest('POST', `/api/credentials/${id}/rotate`, { token });
+      return (await res.json()) as StoredCredential;
+    },
+    onSuccess: invalidate,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/credentials/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    credentials: data.filter((credential) => !credential.revokedAt),
+    isLoading,
+    error,
+    addMutation,
+    testMutation,
+    rotateMutation,
+    revokeMutation,
+  };
+}
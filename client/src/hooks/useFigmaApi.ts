@@ -1,40 +1,48 @@
-import { useState, useCallback } from 'react';
-import { FigmaApiClient } from '@/services/figma-api-client';
-
-interface FigmaApiResponse {
-  name: string;
-  lastModified: string;
-  document: any;
-  components: Record<string, any>;
-  styles: Record<string, any>;
-}
+import { useState, useCallback, useRef } from 'react';
+import type { FigmaApiResponse } from '@/types/types';
+import { apiRequest } from '@/lib/queryClient';
+import { isAbortError } from '@/utils/helpers';
 
 export function useFigmaApi() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [data, setData] = useState<FigmaApiResponse | null>(null);
+  const latestRequest = useRef(0);
+
+  // Goes through the server proxy, so aborting also cancels the upstream Figma download.
+  // The token itself stays on the server; only the stored credential's id is sent.
+  const fetchFigmaFile = useCallback(async (figmaUrl: string, credentialId: number, signal?: AbortSignal): Promise<FigmaApiResponse | null> => {
+    const requestId = ++latestRequest.current;
+    const isCurrent = () => requestId === latestRequest.current && !signal?.aborted;
 
-  const fetchFigmaFile = useCallback(async (figmaUrl: string, apiKey: string): Promise<FigmaApiResponse | null> => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const client = new FigmaApiClient(apiKey);
       const fileKey = extractFileKey(figmaUrl);
       
       if (!fileKey) {
         throw new Error('Invalid Figma URL');
       }
 
-      const response = await client.getFile(fileKey);
-      setData(response);
-      return response;
+      const response = await apiRequest('POST', `/api/figma/file/${fileKey}`, { credentialId }, signal);
+      const file: FigmaApiResponse = await response.json();
+
+      // A newer request may have replaced this one while the body was downloading
+      if (!isCurrent()) return null;
+
+      setData(file);
+      return file;
     } catch (err) {
+      if (isAbortError(err) || !isCurrent()) return null;
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch Figma file';
       setError(errorMessage);
       return null;
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequest.current) {
+        setIsLoading(false);
+      }
     }
   }, []);
 
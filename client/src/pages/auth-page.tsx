@@ -0,0 +1,106 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Redirect } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/useAuth';
+
+// Same limits as the server's /api/register validation
+const credentialsSchema = z.object({
+  username: z.string().trim().min(3, 'At least 3 characters').max(64),
+  password: z.string().min(8, 'At least 8 characters').max(200),
+});
+
+type CredentialsFormData = z.infer<typeof credentialsSchema>;
+
+function CredentialsForm({
+  mode,
+  submitLabel,
+  isPending,
+  onSubmit,
+}: {
+  mode: 'login' | 'register';
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (data: CredentialsFormData) => void;
+}) {
+  const form = useForm<CredentialsFormData>({
+    resolver: zodResolver(credentialsSchema),
+    defaultValues: { username: '', password: '' },
+  });
+  const { errors } = form.formState;
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-username`}>Username</Label>
+        <Input id={`${mode}-username`} autoComplete="username" {...form.register('username')} />
+        {errors.username && <p className="text-xs text-red-600">{errors.username.message}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${mode}-password`}>Password</Label>
+        <Input
+          id={`${mode}-password`}
+          type="password"
+          autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+          {...form.register('password')}
+        />
+        {errors.password && <p className="text-xs text-red-600">{errors.password.message}</p>}
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending}>
+        {isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-gray-900">Figma to Code</CardTitle>
+          <p className="text-sm text-gray-600">
+            Sign in to keep your projects and generation history.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="login">Login</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                mode="login"
+                submitLabel="Login"
+                isPending={loginMutation.isPending}
+                onSubmit={(data) => loginMutation.mutate(data)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                mode="register"
+                submitLabel="Create account"
+                isPending={registerMutation.isPending}
+                onSubmit={(data) => registerMutation.mutate(data)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import type { FigmaApiResponse, FigmaNode, Paint } from '../../types/types';
+
+// Egy rögzített dokumentum a kimeneti pillanatképekhez: auto layout, réteges és
+// színátmenetes kitöltés, eltérő sarkok, árnyékok, vonalak, kép, vektorok, elválasztó,
+// gomb, ismétlődő sorok és ékezetes, escape-elendő szöveg egyetlen komponensben.
+
+const solid = (r: number, g: number, b: number, a = 1): Paint => ({ type: 'SOLID', color: { r, g, b, a } });
+const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+
+const text = (id: string, name: string, characters: string, fontSize: number, y: number, fontWeight?: number): FigmaNode => ({
+  id,
+  name,
+  type: 'TEXT',
+  absoluteBoundingBox: box(16, y, 288, fontSize + 8),
+  characters,
+  style: { fontFamily: 'Inter', fontSize, fontWeight, lineHeightPx: fontSize + 6 },
+  fills: [solid(0.1, 0.1, 0.12)],
+});
+
+const row = (index: number): FigmaNode => ({
+  id: `3:${index}`,
+  name: `Row ${index}`,
+  type: 'FRAME',
+  absoluteBoundingBox: box(16, 420 + index * 32, 288, 28),
+  layoutMode: 'HORIZONTAL',
+  itemSpacing: 8,
+  counterAxisAlignItems: 'CENTER',
+  children: [text(`3:${index + 10}`, 'Label', `Elem ${index}`, 14, 424 + index * 32)],
+});
+
+export const profileCard: FigmaNode = {
+  id: '1:1',
+  name: 'Profile Card',
+  type: 'COMPONENT',
+  absoluteBoundingBox: box(0, 0, 320, 560),
+  layoutMode: 'VERTICAL',
+  itemSpacing: 12,
+  paddingTop: 16,
+  paddingRight: 16,
+  paddingBottom: 16,
+  paddingLeft: 16,
+  primaryAxisAlignItems: 'MIN',
+  counterAxisAlignItems: 'CENTER',
+  rectangleCornerRadii: [16, 16, 4, 4],
+  fills: [
+    solid(1, 1, 1),
+    {
+      type: 'GRADIENT_LINEAR',
+      opacity: 0.5,
+      blendMode: 'MULTIPLY',
+      gradientHandlePositions: [{ x: 0, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }],
+      gradientStops: [
+        { position: 0, color: { r: 0.2, g: 0.4, b: 1, a: 1 } },
+        { position: 1, color: { r: 0.8, g: 0.2, b: 0.6, a: 1 } },
+      ],
+    },
+  ],
+  strokes: [solid(0.9, 0.9, 0.92)],
+  strokeWeight: 1,
+  strokeAlign: 'INSIDE',
+  effects: [
+    { type: 'DROP_SHADOW', visible: true, radius: 12, spread: 2, color: { r: 0, g: 0, b: 0, a: 0.15 }, offset: { x: 0, y: 4 } },
+    { type: 'INNER_SHADOW', visible: true, radius: 4, color: { r: 1, g: 1, b: 1, a: 0.5 }, offset: { x: 0, y: 1 } },
+  ],
+  children: [
+    {
+      id: '1:2',
+      name: 'Avatar',
+      type: 'ELLIPSE',
+      absoluteBoundingBox: box(128, 16, 64, 64),
+      fills: [{ type: 'IMAGE', imageRef: 'avatar' }],
+    },
+    text('1:3', 'Title', 'Árvíztűrő "Jane" {Doe} <b>', 24, 92, 700),
+    text('1:4', 'Bio', 'Első sor\nMásodik sor', 14, 128),
+    {
+      id: '1:5',
+      name: 'Divider',
+      type: 'LINE',
+      absoluteBoundingBox: box(16, 180, 288, 0),
+      strokes: [solid(0.85, 0.85, 0.85)],
+      strokeWeight: 1,
+      strokeDashes: [4, 2],
+    },
+    {
+      id: '1:6',
+      name: 'Stats',
+      type: 'FRAME',
+      absoluteBoundingBox: box(16, 192, 288, 80),
+      layoutMode: 'HORIZONTAL',
+      itemSpacing: 8,
+      primaryAxisAlignItems: 'SPACE_BETWEEN',
+      individualStrokeWeights: { top: 0, right: 0, bottom: 2, left: 0 },
+      strokes: [solid(0.2, 0.4, 1)],
+      children: [
+        {
+          id: '1:7',
+          name: 'Icon',
+          type: 'VECTOR',
+          absoluteBoundingBox: box(16, 200, 24, 24),
+          fills: [solid(0, 0.5, 1)],
+          fillGeometry: [{ path: 'M0 0L24 0L24 24Z', windingRule: 'EVENODD' }],
+        },
+        {
+          id: '1:8',
+          name: 'Rating',
+          type: 'STAR',
+          absoluteBoundingBox: box(48, 200, 24, 24),
+          fills: [solid(1, 0.8, 0)],
+          cornerRadius: 2,
+        },
+        {
+          id: '1:9',
+          name: 'Progress',
+          type: 'ELLIPSE',
+          absoluteBoundingBox: box(80, 200, 24, 24),
+          arcData: { startingAngle: 0, endingAngle: 4.71, innerRadius: 0.6 },
+          fills: [solid(0.2, 0.8, 0.4)],
+        },
+      ],
+    },
+    {
+      id: '1:10',
+      name: 'Follow Button',
+      type: 'FRAME',
+      absoluteBoundingBox: box(100, 284, 120, 40),
+      layoutMode: 'HORIZONTAL',
+      primaryAxisAlignItems: 'CENTER',
+      counterAxisAlignItems: 'CENTER',
+      paddingTop: 8,
+      paddingRight: 16,
+      paddingBottom: 8,
+      paddingLeft: 16,
+      cornerRadius: 8,
+      fills: [solid(0.2, 0.4, 1)],
+      children: [text('1:11', 'Label', 'Követés', 14, 292, 600)],
+    },
+    {
+      id: '1:12',
+      name: 'Links',
+      type: 'FRAME',
+      absoluteBoundingBox: box(16, 336, 288, 80),
+      layoutMode: 'VERTICAL',
+      effects: [{ type: 'BACKGROUND_BLUR', visible: true, radius: 8 }],
+      children: [row(1), row(2), row(3)],
+    },
+  ],
+};
+
+export const profileCardFile: FigmaApiResponse = {
+  name: 'Profile',
+  lastModified: '2024-01-01T00:00:00Z',
+  version: '1',
+  components: { '1:1': { key: 'profile-card', name: 'Profile Card' } },
+  styles: {},
+  document: {
+    id: '0:0',
+    name: 'Document',
+    type: 'DOCUMENT',
+    children: [{ id: '0:1', name: 'Page', type: 'CANVAS', children: [profileCard] }],
+  },
+};
@@ -0,0 +1,16 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+// Fájl alapú pillanatkép a node:test-hez. A hiányzó fájl helyi futáskor létrejön, CI
+// alatt hiba; UPDATE_SNAPSHOTS=1 a meglévőket is újraírja.
+export function matchSnapshot(file: string, actual: string): void {
+  if (process.env.UPDATE_SNAPSHOTS || (!existsSync(file) && !process.env.CI)) {
+    mkdirSync(path.dirname(file), { recursive: true });
+    writeFileSync(file, actual);
+    return;
+  }
+
+  assert.ok(existsSync(file), `Missing snapshot ${file}; run the tests once without CI to write it`);
+  assert.equal(actual, readFileSync(file, 'utf8'), `Output differs from ${file}; rerun with UPDATE_SNAPSHOTS=1 if intended`);
+}
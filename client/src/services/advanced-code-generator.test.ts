@@ -0,0 +1,57 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fileURLToPath } from 'url';
+import { AdvancedCodeGenerator, type CodeGenerationOptions } from './advanced-code-generator';
+import { profileCardFile } from './__fixtures__/profile-card';
+import { matchSnapshot } from './__fixtures__/snapshot';
+
+const FRAMEWORKS: CodeGenerationOptions['framework'][] = [
+  'react', 'vue', 'html', 'svelte', 'angular', 'react-native', 'flutter', 'swiftui', 'compose', 'web-components',
+];
+const STYLINGS: CodeGenerationOptions['styling'][] = ['tailwind', 'plain-css', 'css-modules', 'styled-components'];
+
+function generate(framework: CodeGenerationOptions['framework'], styling: CodeGenerationOptions['styling'], typescript: boolean) {
+  const generator = new AdvancedCodeGenerator(profileCardFile, {
+    framework,
+    styling,
+    typescript,
+    accessibility: true,
+    responsive: true,
+    optimizeImages: true,
+  });
+  return generator.generateComponents();
+}
+
+// Everything the user downloads, without the timing that changes run to run
+function render(framework: CodeGenerationOptions['framework'], styling: CodeGenerationOptions['styling'], typescript: boolean): string {
+  return generate(framework, styling, typescript).map(component => [
+    `=== ${styling} ${typescript ? 'ts' : 'js'}: ${component.name}`,
+    '--- jsx', component.jsx,
+    '--- css', component.css,
+    ...(component.template !== undefined ? ['--- template', component.template] : []),
+    ...(component.typescript !== undefined ? ['--- typescript', component.typescript] : []),
+    `--- dependencies: ${component.metadata.dependencies.join(', ')}`,
+    '--- fidelity notes', ...component.metadata.fidelityNotes,
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+describe('AdvancedCodeGenerator output', () => {
+  for (const framework of FRAMEWORKS) {
+    test(`${framework} in every styling`, () => {
+      // Every styling in TypeScript, plus the plain JavaScript variant once per framework
+      const output = [...STYLINGS.map(styling => render(framework, styling, true)), render(framework, 'plain-css', false)].join('\n');
+      matchSnapshot(fileURLToPath(new URL(`./__snapshots__/${framework}.snap`, import.meta.url)), output);
+    });
+  }
+
+  test('generates the same code on every run', () => {
+    assert.equal(render('react', 'tailwind', true), render('react', 'tailwind', true));
+  });
+
+  test('reports the approximated design details', () => {
+    const [component] = generate('react', 'plain-css', true);
+
+    assert.equal(component.name, 'ProfileCard');
+    assert.ok(component.metadata.fidelityNotes.some(note => note.startsWith('Rating:')));
+  });
+});
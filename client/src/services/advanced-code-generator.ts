@@ -1,7 +1,12 @@
-import { FigmaNode, FigmaApiResponse, GeneratedComponent, ComponentMetadata, AccessibilityReport, ResponsiveBreakpoints } from '../types/figma';
+import ts from 'typescript';
+import { FigmaNode, FigmaApiResponse, GeneratedComponent, ComponentMetadata, AccessibilityReport, ResponsiveBreakpoints } from '../types/types';
+import { buildDesignTree, componentProps, containsVector, dropShadows, fidelityNotes, firstSolidColor, isVerticalDivider, uniformStroke, type DesignColor, type DesignNode } from './design-ir';
+import { colorToCSS, cssDeclarations, cssRule, tailwindClasses } from './design-css';
+import { jsxAttributeName, svgMarkup, svgRootAttributes, vectorShapes, type SvgAttribute } from './design-svg';
+import { defaultImport, exportConst, exportModifiers, literal, printModule, templateLiteral, typeNode } from './typescript-ast';
 
 export interface CodeGenerationOptions {
-  framework: 'react' | 'vue' | 'html';
+  framework: 'react' | 'vue' | 'html' | 'svelte' | 'angular' | 'react-native' | 'flutter' | 'swiftui' | 'compose' | 'web-components';
   styling: 'tailwind' | 'css-modules' | 'styled-components' | 'plain-css';
   typescript: boolean;
   accessibility: boolean;
@@ -15,319 +20,1828 @@ export interface CustomCodeInputs {
   cssAdvanced: string;
 }
 
+export interface GenerationTarget {
+  node: FigmaNode;
+  name: string;
+}
+
+// Dart kifejezés: nyers kód, névvel ellátott argumentumú konstruktorhívás vagy lista
+type DartExpression = string | DartCall | DartExpression[];
+
+interface DartCall {
+  call: string;
+  args: Array<[string, DartExpression]>;
+}
+
+// Angular fájlnév a komponens nevéből: CardFrame -> card-frame(.component.ts)
+export function angularFileName(componentName: string): string {
+  return componentName.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+// Custom element név a komponens nevéből; a szabvány kötőjelet követel meg
+export function customElementName(componentName: string): string {
+  const name = angularFileName(componentName);
+  return name.includes('-') ? name : `${name}-element`;
+}
+
+// Dart fájlnév a komponens nevéből: CardFrame -> card_frame(.dart)
+export function dartFileName(componentName: string): string {
+  return componentName.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
 export class AdvancedCodeGenerator {
   private figmaData: FigmaApiResponse;
   private options: CodeGenerationOptions;
   private customCode: CustomCodeInputs = { jsx: '', css: '', cssAdvanced: '' };
 
-  constructor(figmaData: FigmaApiResponse, options: CodeGenerationOptions) {
-    this.figmaData = figmaData;
-    this.options = options;
-  }
+  constructor(figmaData: FigmaApiResponse, options: CodeGenerationOptions) {
+    this.figmaData = figmaData;
+    this.options = options;
+  }
+
+  // Egyéni kód beállítása
+  setCustomCode(customCode: CustomCodeInputs) {
+    this.customCode = customCode;
+  }
+
+  // Fő generálási metódus
+  generateComponents(): GeneratedComponent[] {
+    return this.findGenerationTargets().map(target => this.generateComponent(target));
+  }
+
+  // A generálandó node-ok: a komponensek, vagy ha nincsenek, a fő frame-ek
+  findGenerationTargets(): GenerationTarget[] {
+    const targets: GenerationTarget[] = [];
+
+    // A components map kulcsa a node id, a component.key a publikált kulcs
+    Object.entries(this.figmaData.components || {}).forEach(([nodeId, component]) => {
+      const node = this.findNodeById(nodeId);
+      if (node) {
+        targets.push({ node, name: component.name });
+      }
+    });
+
+    if (targets.length === 0) {
+      this.findMainFrames(this.figmaData.document).forEach(frame => {
+        targets.push({ node: frame, name: frame.name });
+      });
+    }
+
+    return targets;
+  }
+
+  // Egyetlen cél legenerálása, így a hívó lépésenként haladhat
+  generateComponent(target: GenerationTarget): GeneratedComponent {
+    return this.generateSingleComponent(target.node, target.name);
+  }
+
+  private generateSingleComponent(node: FigmaNode, componentName: string): GeneratedComponent {
+    const startTime = Date.now();
+    
+    const sanitizedName = this.sanitizeComponentName(componentName);
+    // Minden kimenet ugyanabból a köztes fából készül
+    const design = buildDesignTree(node);
+    const jsx = this.generateJSX(design, sanitizedName);
+    // A Vue, Svelte, Angular és HTML kimenet a teljes fa stílusait osztályonként kapja
+    // A natív célok stílusai a komponens kódjában vannak, külön stíluslap nincs
+    const css = ['vue', 'svelte', 'angular', 'html', 'web-components'].includes(this.options.framework)
+      ? this.generateTreeCSS(design)
+      : this.isNativeTarget() ? '' : this.generateCSS(design, sanitizedName);
+    const accessibility = this.analyzeAccessibility(node);
+    const responsive = this.analyzeResponsive(node);
+    const metadata = this.generateMetadata(node, design, Date.now() - startTime);
+
+    return {
+      id: node.id,
+      name: sanitizedName,
+      jsx,
+      css,
+      // Az Angular komponens osztálya a jsx mezőben, a külső sablonja itt
+      ...(this.options.framework === 'angular' && { template: this.generateAngularTemplate(design) }),
+      ...(this.options.typescript && !['html', 'angular', 'web-components'].includes(this.options.framework) && !this.isNativeTarget() && { typescript: this.generateTypeScript(design, sanitizedName) }),
+      accessibility,
+      responsive,
+      metadata,
+    };
+  }
+
+  // JSX generálás fejlett logikával + egyéni kód
+  private generateJSX(node: DesignNode, componentName: string): string {
+    // Vue egyfájlos komponens
+    if (this.options.framework === 'vue') {
+      return this.generateVueSFC(node);
+    }
+
+    // Svelte komponens
+    if (this.options.framework === 'svelte') {
+      return this.generateSvelteComponent(node);
+    }
+
+    // Angular standalone komponens osztály
+    if (this.options.framework === 'angular') {
+      return this.generateAngularComponent(node, componentName);
+    }
+
+    // React Native komponens
+    if (this.options.framework === 'react-native') {
+      return this.generateNativeComponent(node, componentName);
+    }
+
+    // Flutter widget
+    if (this.options.framework === 'flutter') {
+      return this.generateFlutterWidgetClass(node, componentName);
+    }
+
+    // SwiftUI és Jetpack Compose nézetek
+    if (this.options.framework === 'swiftui') {
+      return this.generateSwiftUIStruct(node, componentName);
+    }
+    if (this.options.framework === 'compose') {
+      return this.generateComposeFunction(node, componentName);
+    }
+
+    // Lit web component
+    if (this.options.framework === 'web-components') {
+      return this.generateLitElement(node, componentName);
+    }
+
+    // Önálló HTML oldal
+    if (this.options.framework === 'html') {
+      return this.generateHTMLDocument(node, componentName);
+    }
+
+    return this.generateReactComponent(node, componentName);
+  }
+
+  // React komponens szintaxisfából: a szövegek és attribútumok literálként kerülnek
+  // a fába, az escape-elést és a formázást a printer végzi
+  private generateReactComponent(node: DesignNode, componentName: string): string {
+    const f = ts.factory;
+    const props = this.extractProps(node);
+    const propsName = `${componentName}Props`;
+
+    const parameters = props.length > 0
+      ? [f.createParameterDeclaration(undefined, undefined, f.createObjectBindingPattern(
+          props.map(p => f.createBindingElement(undefined, undefined, p.name))
+        ))]
+      : [];
+
+    const returnStatement = f.createReturnStatement(f.createParenthesizedExpression(this.generateJSXElement(node, true)));
+    // Az egyéni kód helyét jelölő kommentek; a kód a formázás után kerül közéjük
+    if (this.customCode.jsx) {
+      ts.addSyntheticLeadingComment(returnStatement, ts.SyntaxKind.SingleLineCommentTrivia, ' === EGYÉNI JSX KÓD ===', true);
+      ts.addSyntheticLeadingComment(returnStatement, ts.SyntaxKind.SingleLineCommentTrivia, ' === EGYÉNI JSX KÓD VÉGE ===', true);
+    }
+
+    const component = f.createArrowFunction(
+      undefined,
+      undefined,
+      parameters,
+      undefined,
+      f.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+      f.createBlock([returnStatement], true),
+    );
+    const componentType = this.options.typescript
+      ? f.createTypeReferenceNode(f.createQualifiedName(f.createIdentifier('React'), 'FC'), [f.createTypeReferenceNode(propsName)])
+      : undefined;
+
+    const source = printModule([
+      defaultImport('React', 'react'),
+      ...(this.options.typescript ? [this.propsInterfaceDeclaration(propsName, props, false)] : []),
+      exportConst(componentName, component, componentType),
+      f.createExportAssignment(undefined, undefined, f.createIdentifier(componentName)),
+    ]);
+
+    return this.customCode.jsx ? this.insertCustomJSX(source) : source;
+  }
+
+  // Az egyéni kód a nyitó jelölő után, annak behúzásával; a felhasználó kódja nem megy át a printeren
+  private insertCustomJSX(source: string): string {
+    const marker = '// === EGYÉNI JSX KÓD ===';
+    const markerStart = source.indexOf(marker);
+    const indent = source.slice(source.lastIndexOf('\n', markerStart) + 1, markerStart);
+    const markerEnd = markerStart + marker.length;
+    const customCode = this.customCode.jsx.split('\n').map(line => (line ? `${indent}${line}` : line)).join('\n');
+    return `${source.slice(0, markerEnd)}\n${customCode}${source.slice(markerEnd)}`;
+  }
+
+  private generateJSXElement(node: DesignNode, isRoot: boolean): ts.JsxElement | ts.JsxSelfClosingElement {
+    const f = ts.factory;
+    const tag = f.createIdentifier(node.tag);
+    const attribute = (name: string, value: ts.Expression) =>
+      f.createJsxAttribute(f.createIdentifier(name), ts.isStringLiteral(value) ? value : f.createJsxExpression(undefined, value));
+    const svgAttribute = ([name, value]: SvgAttribute) =>
+      attribute(jsxAttributeName(name), typeof value === 'string' ? f.createStringLiteral(value) : literal(value));
+
+    const className = this.options.styling === 'tailwind' ? tailwindClasses(node) : node.className;
+    const styles = this.generateInlineStyles(node);
+    // Csak a gyökér kép forrása prop, a beágyazott képek helyőrzőt és a réteg nevét kapják
+    const imageAttributes = isRoot
+      ? ['src', 'alt'].map(name => attribute(name, f.createIdentifier(name)))
+      : [attribute('src', f.createStringLiteral('')), attribute('alt', f.createStringLiteral(node.name))];
+    const attributes = f.createJsxAttributes([
+      ...(className ? [attribute('className', f.createStringLiteral(className))] : []),
+      ...(styles ? [attribute('style', styles)] : []),
+      ...(node.role === 'image'
+        ? imageAttributes
+        : this.tagAttributePairs(node).map(([name, value]) => attribute(name, f.createStringLiteral(value)))),
+      ...(node.role === 'vector' ? svgRootAttributes(node).map(svgAttribute) : []),
+    ]);
+
+    // A szöveg kifejezésben, string literálként: idézőjel, kapcsos zárójel vagy < sem törheti el
+    const children: ts.JsxChild[] = node.text
+      ? [f.createJsxExpression(undefined, f.createStringLiteral(node.text))]
+      : node.role === 'vector'
+        ? vectorShapes(node).map(shape =>
+          f.createJsxSelfClosingElement(f.createIdentifier(shape.tag), undefined, f.createJsxAttributes(shape.attributes.map(svgAttribute))))
+        : node.children.map(child => this.generateJSXElement(child, false));
+    if (children.length === 0) {
+      return f.createJsxSelfClosingElement(tag, undefined, attributes);
+    }
+
+    // Minden gyerek külön sorba kerül, a behúzást a formázó adja
+    return f.createJsxElement(
+      f.createJsxOpeningElement(tag, undefined, attributes),
+      [...children.flatMap(child => [f.createJsxText('\n'), child]), f.createJsxText('\n')],
+      f.createJsxClosingElement(tag),
+    );
+  }
+
+
+  // Önálló index.html: szemantikus elemek, kódolt szöveg, osztály alapú stílusok.
+  // A stíluslap a komponens nevét viseli (a css mezőben), ezt linkeljük be.
+  private generateHTMLDocument(node: DesignNode, componentName: string): string {
+    const body = this.generateHTMLElement(node, 2, true);
+
+    const head = [
+      '<meta charset="utf-8">',
+      '<meta name="viewport" content="width=device-width, initial-scale=1">',
+      `<title>${this.escapeHtml(node.name)}</title>`,
+      // Tailwind esetén a Play CDN fordítja az osztályokat, így az oldal build nélkül is működik
+      ...(this.options.styling === 'tailwind' ? ['<script src="https://cdn.tailwindcss.com"></script>'] : []),
+      `<link rel="stylesheet" href="${componentName}.css">`,
+    ];
+
+    // Egyéni kód beépítése
+    const script = this.customCode.jsx ? `
+    <script>
+      // === EGYÉNI KÓD ===
+      ${this.customCode.jsx.replace(/<\/script/gi, '<\\/script')}
+      // === EGYÉNI KÓD VÉGE ===
+    </script>` : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    ${head.join('\n    ')}
+  </head>
+  <body>
+${body}${script}
+  </body>
+</html>
+`;
+  }
+
+  private generateHTMLElement(node: DesignNode, depth: number, isRoot: boolean): string {
+    const indent = '  '.repeat(depth);
+    // Egy teljes frame az oldal fő tartalma
+    const tag = isRoot && node.type === 'FRAME' && node.tag === 'div' ? 'main' : node.tag;
+
+    const attributes: string[] = [];
+    const classes = this.options.styling === 'tailwind' ? tailwindClasses(node) : node.className;
+    if (classes) attributes.push(`class="${this.escapeHtml(classes)}"`);
+    if (tag === 'img') attributes.push('src=""', `alt="${this.escapeHtml(node.name)}"`);
+    attributes.push(...this.tagAttributes(node));
+
+    if (node.role === 'vector') {
+      return svgMarkup(node, attributes, indent);
+    }
+
+    const open = `<${tag}${attributes.map(a => ` ${a}`).join('')}>`;
+
+    if (this.isVoidTag(tag)) {
+      return `${indent}${open}`;
+    }
+
+    if (node.text) {
+      const text = this.escapeHtml(node.text).replace(/\n/g, '<br>');
+      return `${indent}${open}${text}</${tag}>`;
+    }
+
+    const children = node.children.map(child => this.generateHTMLElement(child, depth + 1, false));
+    if (children.length === 0) {
+      return `${indent}${open}</${tag}>`;
+    }
+
+    return `${indent}${open}
+${children.join('\n')}
+${indent}</${tag}>`;
+  }
+
+  // Az elemhez tartozó kötelező attribútumok, hogy a szemantikus elem magában is helyes legyen
+  private tagAttributes(node: DesignNode): string[] {
+    return this.tagAttributePairs(node).map(([name, value]) => `${name}="${value}"`);
+  }
+
+  private tagAttributePairs(node: DesignNode): Array<[string, string]> {
+    if (node.tag === 'a') return [['href', '#']];
+    if (node.tag === 'button') return [['type', 'button']];
+    // A hr alapból vízszintes elválasztó
+    if (isVerticalDivider(node)) return [['aria-orientation', 'vertical']];
+    return [];
+  }
+
+  // Záró tag nélküli HTML elemek
+  private isVoidTag(tag: string): boolean {
+    return tag === 'img' || tag === 'hr';
+  }
+
+  // React Native komponens: View/Text/Image elemek, vektorok react-native-svg-vel,
+  // stílusok StyleSheet.create objektumban. Az RN csak flexboxot ismer, így az
+  // auto-layout nélküli frame-ek gyerekei abszolút pozíciót kapnak.
+  private generateNativeComponent(node: DesignNode, componentName: string): string {
+    const imports = new Set<string>(['StyleSheet']);
+    const svgImports = new Set<string>();
+    const element = this.generateNativeElement(node, imports, svgImports, 2, true);
+
+    const props = this.extractProps(node).filter(p => p.name !== 'className');
+    const propsInterface = this.options.typescript ? this.generatePropsInterface(props, componentName) : '';
+    const params = props.length > 0 ? `{ ${props.map(p => p.name).join(', ')} }` : '';
+    const componentSignature = this.options.typescript && props.length > 0
+      ? `export const ${componentName}: React.FC<${componentName}Props> = (${params})`
+      : `export const ${componentName} = (${params})`;
+
+    const importLines = [
+      'import React from "react";',
+      `import { ${Array.from(imports).sort().join(', ')} } from "react-native";`,
+    ];
+    if (svgImports.has('Svg')) {
+      const named = Array.from(svgImports).filter(name => name !== 'Svg').sort();
+      importLines.push(`import Svg${named.length > 0 ? `, { ${named.join(', ')} }` : ''} from "react-native-svg";`);
+    }
+
+    // Egyéni JSX kód beépítése
+    const customJSXSection = this.customCode.jsx ? `
+  // === EGYÉNI JSX KÓD ===
+  ${this.customCode.jsx}
+  // === EGYÉNI JSX KÓD VÉGE ===
+` : '';
+
+    return `${importLines.join('\n')}
+
+${propsInterface}${componentSignature} => {${customJSXSection}
+  return (
+${element}
+  );
+};
+
+const styles = StyleSheet.create({
+${this.generateNativeStyleSheet(node)}
+});
+
+export default ${componentName};
+`;
+  }
+
+  private generateNativeElement(
+    node: DesignNode,
+    imports: Set<string>,
+    svgImports: Set<string>,
+    depth: number,
+    isRoot: boolean
+  ): string {
+    const indent = '  '.repeat(depth);
+    const style = `style={styles.${this.nativeStyleName(node)}}`;
+
+    if (node.text !== undefined) {
+      imports.add('Text');
+      const text = JSON.stringify(node.text);
+      return `${indent}<Text ${style}>{${isRoot ? `children ?? ${text}` : text}}</Text>`;
+    }
+
+    if (node.role === 'image') {
+      imports.add('Image');
+      const source = isRoot ? '{{ uri: src }}' : '{{ uri: "" }}';
+      const label = isRoot ? '{alt}' : this.jsxString(node.name);
+      return `${indent}<Image ${style} source=${source} accessibilityLabel=${label} />`;
+    }
+
+    if (node.asset?.kind === 'vector') {
+      return this.generateNativeSvg(node, style, svgImports, depth);
+    }
+
+    imports.add('View');
+    const children = node.children.map(child =>
+      this.generateNativeElement(child, imports, svgImports, depth + 1, false)
+    );
+    if (children.length === 0) {
+      return `${indent}<View ${style} />`;
+    }
+
+    return `${indent}<View ${style}>
+${children.join('\n')}
+${indent}</View>`;
+  }
+
+  // Vektorok react-native-svg elemekként, a webes célokkal közös alakzatokból. Az overflow
+  // attribútumot a react-native-svg nem ismeri, ott a kilógó vonal levágódik.
+  private generateNativeSvg(node: DesignNode, style: string, svgImports: Set<string>, depth: number): string {
+    const indent = '  '.repeat(depth);
+    svgImports.add('Svg');
+    const attributes = (pairs: SvgAttribute[]) => pairs
+      .map(([name, value]) => `${jsxAttributeName(name)}=${typeof value === 'string' ? this.jsxString(value) : `{${value}}`}`)
+      .join(' ');
+
+    const shapes = vectorShapes(node).map(shape => {
+      const tag = shape.tag.charAt(0).toUpperCase() + shape.tag.slice(1);
+      svgImports.add(tag);
+      return `${indent}  <${tag} ${attributes(shape.attributes)} />`;
+    });
+
+    const root = svgRootAttributes(node).filter(([name]) => name !== 'overflow');
+    return `${indent}<Svg ${style} ${attributes(root)}>
+${shapes.join('\n')}
+${indent}</Svg>`;
+  }
+
+  private generateNativeStyleSheet(root: DesignNode): string {
+    const entries: string[] = [];
+
+    const visit = (node: DesignNode) => {
+      const styles = this.extractNativeStyles(node);
+      const body = Object.entries(styles)
+        .map(([key, value]) => `    ${key}: ${this.toNativeValue(value)},`)
+        .join('\n');
+      entries.push(`  ${this.nativeStyleName(node)}: {${body ? `\n${body}\n  ` : ''}},`);
+      node.children.forEach(visit);
+    };
+
+    visit(root);
+    return entries.join('\n');
+  }
+
+  // Natív célokon az elválasztó a vonal vastagságú, vonalszínnel kitöltött téglalap
+  private nativeDivider(node: DesignNode): { width: number; height: number; color: DesignColor } | undefined {
+    const line = node.role === 'divider' ? uniformStroke(node.style) : undefined;
+    if (!line) return undefined;
+    const vertical = isVerticalDivider(node);
+    return {
+      width: vertical ? line.width : node.style.width || 0,
+      height: vertical ? node.style.height || 0 : line.width,
+      color: line.color,
+    };
+  }
+
+  // A StyleSheet kulcsai: az egyedi osztálynevek camelCase alakja
+  private nativeStyleName(node: DesignNode): string {
+    return node.className.replace(/-+([a-z0-9])/g, (_, char: string) => char.toUpperCase()).replace(/-/g, '');
+  }
+
+  private extractNativeStyles(node: DesignNode): Record<string, string | number | Record<string, number>> {
+    const styles: Record<string, string | number | Record<string, number>> = {};
+    const { style } = node;
+
+    // Auto-layout nélküli szülőben a Figma koordináták abszolút pozíciót adnak
+    if (style.offset) {
+      styles.position = 'absolute';
+      styles.left = style.offset.x;
+      styles.top = style.offset.y;
+    }
+
+    if (style.width !== undefined && style.height !== undefined) {
+      styles.width = style.width;
+      styles.height = style.height;
+    }
+
+    if (style.layout) {
+      const flexValue = { start: 'flex-start', center: 'center', end: 'flex-end', 'space-between': 'space-between', baseline: 'baseline' };
+      styles.flexDirection = style.layout.direction;
+      if (style.layout.gap) styles.gap = style.layout.gap;
+      if (style.layout.justify) styles.justifyContent = flexValue[style.layout.justify];
+      if (style.layout.align) styles.alignItems = flexValue[style.layout.align];
+    }
+
+    if (style.padding) {
+      if (style.padding.top) styles.paddingTop = style.padding.top;
+      if (style.padding.right) styles.paddingRight = style.padding.right;
+      if (style.padding.bottom) styles.paddingBottom = style.padding.bottom;
+      if (style.padding.left) styles.paddingLeft = style.padding.left;
+    }
+
+    if (node.text !== undefined) {
+      if (style.color) styles.color = colorToCSS(style.color);
+      if (style.text) {
+        styles.fontFamily = style.text.fontFamily;
+        styles.fontSize = style.text.fontSize;
+        if (style.text.fontWeight) styles.fontWeight = String(style.text.fontWeight);
+        if (style.text.lineHeight !== undefined) styles.lineHeight = style.text.lineHeight;
+        if (style.text.letterSpacing !== undefined) styles.letterSpacing = style.text.letterSpacing;
+      }
+    } else if (node.role === 'divider') {
+      const divider = this.nativeDivider(node);
+      if (divider) {
+        styles.width = divider.width;
+        styles.height = divider.height;
+        styles.backgroundColor = colorToCSS(divider.color);
+      }
+    } else if (node.role !== 'vector') {
+      // A vektorok kitöltése és körvonala az SVG-re kerül
+      const background = firstSolidColor(style.fills);
+      if (background) styles.backgroundColor = colorToCSS(background);
+
+      // Az RN nem ismer elliptikus lekerekítést, a rövidebb oldal fele körnél pontos
+      if (node.type === 'ELLIPSE') {
+        styles.borderRadius = Math.min(style.width || 0, style.height || 0) / 2;
+      } else if (style.cornerRadii) {
+        styles.borderTopLeftRadius = style.cornerRadii.topLeft;
+        styles.borderTopRightRadius = style.cornerRadii.topRight;
+        styles.borderBottomRightRadius = style.cornerRadii.bottomRight;
+        styles.borderBottomLeftRadius = style.cornerRadii.bottomLeft;
+      } else if (style.cornerRadius) {
+        styles.borderRadius = style.cornerRadius;
+      }
+
+      const border = uniformStroke(style);
+      if (border) {
+        styles.borderWidth = border.width;
+        styles.borderColor = colorToCSS(border.color);
+      }
+    }
+
+    if (style.opacity !== undefined) {
+      styles.opacity = style.opacity;
+    }
+
+    // iOS árnyék tulajdonságok, Androidon az elevation közelíti
+    const [shadow] = dropShadows(style);
+    if (shadow) {
+      styles.shadowColor = colorToCSS({ ...shadow.color, a: 1 });
+      styles.shadowOffset = { width: shadow.x, height: shadow.y };
+      styles.shadowOpacity = shadow.color.a;
+      styles.shadowRadius = shadow.blur / 2;
+      styles.elevation = Math.round(shadow.blur / 2);
+    }
+
+    return styles;
+  }
+
+  private toNativeValue(value: string | number | Record<string, number>): string {
+    if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+    if (typeof value === 'string') return JSON.stringify(value);
+    return `{ ${Object.entries(value).map(([key, item]) => `${key}: ${item}`).join(', ')} }`;
+  }
+
+  // JSX attribútum érték: egyszerű szöveg idézőjelben, különben kifejezésként
+  private jsxString(value: string): string {
+    return /^[^"\\{}<>&\n]*$/.test(value) ? `"${value}"` : `{${JSON.stringify(value)}}`;
+  }
+
+  // Flutter StatelessWidget: auto-layout frame -> Row/Column, kitöltés, lekerekítés és
+  // árnyék -> Container + BoxDecoration, szöveg -> Text + TextStyle. Az auto-layout
+  // nélküli frame-ek Stack-be kerülnek, a gyerekek Positioned-del.
+  private generateFlutterWidgetClass(node: DesignNode, componentName: string): string {
+    const fields = componentProps(node).map(p => ({
+      name: p.name,
+      type: p.optional ? 'String?' : 'String',
+      required: !p.optional,
+    }));
+
+    const constructorParams = ['super.key', ...fields.map(f => `${f.required ? 'required ' : ''}this.${f.name}`)];
+    const members = [`const ${componentName}({${constructorParams.join(', ')}});`];
+    if (fields.length > 0) {
+      members.push('', ...fields.map(f => `final ${f.type} ${f.name};`));
+    }
+
+    // Egyéni kód beépítése
+    if (this.customCode.jsx) {
+      members.push('', '// === EGYÉNI KÓD ===', this.customCode.jsx, '// === EGYÉNI KÓD VÉGE ===');
+    }
+
+    const widget = this.printDart(this.generateFlutterNode(node, true), 2);
+
+    return `import 'package:flutter/material.dart';
+
+class ${componentName} extends StatelessWidget {
+${this.indentLines(members.join('\n'), 1)}
+
+  @override
+  Widget build(BuildContext context) {
+    return ${widget};
+  }
+}
+`;
+  }
+
+  private generateFlutterNode(node: DesignNode, isRoot: boolean): DartExpression {
+    const { style } = node;
+    const size: Array<[string, DartExpression]> = style.width !== undefined && style.height !== undefined
+      ? [['width', this.formatNumber(style.width)], ['height', this.formatNumber(style.height)]]
+      : [];
+
+    if (node.text !== undefined) {
+      const text = this.toDartString(node.text);
+      return this.wrapFlutterOpacity(node, {
+        call: 'Text',
+        args: [['', isRoot ? `text ?? ${text}` : text], ['style', this.generateFlutterTextStyle(node)]],
+      });
+    }
+
+    if (node.role === 'image') {
+      if (!isRoot) {
+        // Beágyazott képnek nincs forrása, a helyét jelöljük
+        return { call: 'SizedBox', args: [...size, ['child', 'const Placeholder()']] };
+      }
+      return {
+        call: 'Image.network',
+        args: [['', 'src'], ...size, ['fit', 'BoxFit.cover'], ['semanticLabel', 'alt']],
+      };
+    }
+
+    const divider = this.nativeDivider(node);
+    if (divider) {
+      return this.wrapFlutterOpacity(node, {
+        call: 'Container',
+        args: [['width', this.formatNumber(divider.width)], ['height', this.formatNumber(divider.height)], ['color', this.toDartColor(divider.color)]],
+      });
+    }
+
+    const args: Array<[string, DartExpression]> = [...size];
+    if (style.padding) {
+      const { left, top, right, bottom } = style.padding;
+      const padding = [left, top, right, bottom].map(p => this.formatNumber(p));
+      args.push(['padding', `const EdgeInsets.fromLTRB(${padding.join(', ')})`]);
+    }
+
+    const decoration = this.generateFlutterDecoration(node);
+    if (decoration) args.push(['decoration', decoration]);
+
+    if (node.children.length > 0) {
+      args.push(['child', this.generateFlutterLayout(node)]);
+    }
+
+    return this.wrapFlutterOpacity(node, { call: 'Container', args });
+  }
+
+  private generateFlutterLayout(node: DesignNode): DartExpression {
+    const { layout } = node.style;
+
+    if (layout) {
+      const horizontal = layout.direction === 'row';
+      const mainAxis = { start: 'start', center: 'center', end: 'end', 'space-between': 'spaceBetween' };
+      const crossAxis = { start: 'start', center: 'center', end: 'end', baseline: 'baseline' };
+
+      const args: Array<[string, DartExpression]> = [];
+      if (layout.justify) {
+        args.push(['mainAxisAlignment', `MainAxisAlignment.${mainAxis[layout.justify]}`]);
+      }
+      if (layout.align) {
+        args.push(['crossAxisAlignment', `CrossAxisAlignment.${crossAxis[layout.align]}`]);
+        if (layout.align === 'baseline') args.push(['textBaseline', 'TextBaseline.alphabetic']);
+      }
+
+      // A gap SizedBox térközként kerül a gyerekek közé
+      const items: DartExpression[] = [];
+      node.children.forEach((child, index) => {
+        if (index > 0 && layout.gap) {
+          items.push(`const SizedBox(${horizontal ? 'width' : 'height'}: ${this.formatNumber(layout.gap)})`);
+        }
+        items.push(this.generateFlutterNode(child, false));
+      });
+      args.push(['children', items]);
+
+      return { call: horizontal ? 'Row' : 'Column', args };
+    }
+
+    return {
+      call: 'Stack',
+      args: [['children', node.children.map(child => {
+        const widget = this.generateFlutterNode(child, false);
+        if (!child.style.offset) return widget;
+        return {
+          call: 'Positioned',
+          args: [
+            ['left', this.formatNumber(child.style.offset.x)],
+            ['top', this.formatNumber(child.style.offset.y)],
+            ['child', widget],
+          ],
+        };
+      })]],
+    };
+  }
+
+  private generateFlutterDecoration(node: DesignNode): DartExpression | null {
+    const { style } = node;
+    const args: Array<[string, DartExpression]> = [];
+
+    const color = firstSolidColor(style.fills);
+    if (color) args.push(['color', this.toDartColor(color)]);
+
+    if (node.type === 'ELLIPSE') {
+      args.push(['shape', 'BoxShape.circle']);
+    } else if (style.cornerRadii) {
+      const { topLeft, topRight, bottomRight, bottomLeft } = style.cornerRadii;
+      const corners: Array<[string, number]> = [['topLeft', topLeft], ['topRight', topRight], ['bottomRight', bottomRight], ['bottomLeft', bottomLeft]];
+      args.push(['borderRadius', {
+        call: 'BorderRadius.only',
+        args: corners.filter(([, radius]) => radius > 0).map(([corner, radius]) => [corner, `Radius.circular(${this.formatNumber(radius)})`]),
+      }]);
+    } else if (style.cornerRadius) {
+      args.push(['borderRadius', `BorderRadius.circular(${this.formatNumber(style.cornerRadius)})`]);
+    }
+
+    const border = uniformStroke(style);
+    if (border) {
+      args.push(['border', `Border.all(color: ${this.toDartColor(border.color)}, width: ${this.formatNumber(border.width)})`]);
+    }
+
+    const shadows = dropShadows(style);
+    if (shadows.length > 0) {
+      args.push(['boxShadow', shadows.map(shadow => ({
+        call: 'BoxShadow',
+        args: [
+          ['color', this.toDartColor(shadow.color)],
+          ['offset', `Offset(${this.formatNumber(shadow.x)}, ${this.formatNumber(shadow.y)})`],
+          ['blurRadius', this.formatNumber(shadow.blur)],
+          ...(shadow.spread ? [['spreadRadius', this.formatNumber(shadow.spread)]] : []),
+        ] as Array<[string, DartExpression]>,
+      }))]);
+    }
+
+    return args.length > 0 ? { call: 'BoxDecoration', args } : null;
+  }
+
+  private generateFlutterTextStyle(node: DesignNode): DartExpression {
+    const args: Array<[string, DartExpression]> = [];
+    const { color, text } = node.style;
+
+    if (color) args.push(['color', this.toDartColor(color)]);
+
+    if (text) {
+      args.push(['fontFamily', this.toDartString(text.fontFamily)], ['fontSize', this.formatNumber(text.fontSize)]);
+      if (text.fontWeight) {
+        // A Flutter csak a 100-as lépcsőket ismeri
+        const weight = Math.min(900, Math.max(100, Math.round(text.fontWeight / 100) * 100));
+        args.push(['fontWeight', `FontWeight.w${weight}`]);
+      }
+      // A Flutter sormagassága a betűméret szorzója
+      if (text.lineHeight !== undefined && text.fontSize) {
+        args.push(['height', this.formatNumber(text.lineHeight / text.fontSize)]);
+      }
+      if (text.letterSpacing !== undefined) args.push(['letterSpacing', this.formatNumber(text.letterSpacing)]);
+    }
+
+    return { call: 'TextStyle', args };
+  }
+
+  private wrapFlutterOpacity(node: DesignNode, widget: DartExpression): DartExpression {
+    if (node.style.opacity === undefined) return widget;
+    return { call: 'Opacity', args: [['opacity', this.formatNumber(node.style.opacity)], ['child', widget]] };
+  }
+
+  // Soronként tördelt Dart kód, záró vesszőkkel, ahogy a dart format is írná
+  private printDart(expression: DartExpression, depth: number): string {
+    const indent = '  '.repeat(depth + 1);
+    const closing = '  '.repeat(depth);
+
+    if (typeof expression === 'string') return expression;
+
+    if (Array.isArray(expression)) {
+      if (expression.length === 0) return '[]';
+      return `[\n${expression.map(item => `${indent}${this.printDart(item, depth + 1)},`).join('\n')}\n${closing}]`;
+    }
+
+    if (expression.args.length === 0) return `${expression.call}()`;
+    const args = expression.args.map(([name, value]) => `${indent}${name ? `${name}: ` : ''}${this.printDart(value, depth + 1)},`);
+    return `${expression.call}(\n${args.join('\n')}\n${closing})`;
+  }
+
+  private toDartString(text: string): string {
+    const escaped = text
+      .replace(/\\/g, '\\\\')
+      .replace(/'/g, "\\'")
+      .replace(/\$/g, '\\$')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r');
+    return `'${escaped}'`;
+  }
+
+  private toDartColor(color: DesignColor): string {
+    return `const Color(0x${this.toARGBHex(color)})`;
+  }
+
+  // 0xAARRGGBB alak, ahogy a Flutter és a Compose Color konstruktora várja
+  private toARGBHex(color: DesignColor): string {
+    return [color.a, color.r, color.g, color.b]
+      .map(channel => Math.round(channel * 255).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  private isNativeTarget(): boolean {
+    return ['react-native', 'flutter', 'swiftui', 'compose'].includes(this.options.framework);
+  }
+
+  // Lit LitElement osztály: @property a propokból, static styles a számított
+  // stílusokból, a szövegek <slot>-ként felülírhatók (a gyökér szöveg az alapértelmezett slot)
+  private generateLitElement(node: DesignNode, componentName: string): string {
+    const tagName = customElementName(componentName);
+    const props = this.extractTemplateProps(node);
+    const template = this.generateLitTemplate(node, 2, true);
+    const styles = [':host {\n  display: block;\n}', this.generateTreeCSS(node)].filter(Boolean).join('\n\n');
+
+    const typeName = (type: string) => ({ number: 'Number', boolean: 'Boolean' } as Record<string, string>)[type] || 'String';
+    const members: string[] = [
+      `static styles = css\`\n${this.indentLines(this.escapeTemplateLiteral(styles), 1)}\n\`;`,
+    ];
+
+    if (this.options.typescript) {
+      if (props.length > 0) members.push('');
+      members.push(...props.map(p => `@property({ type: ${typeName(p.type)} }) ${p.name}${p.optional ? '?' : ''}: ${p.type}${p.optional ? '' : " = ''"};`));
+    } else if (props.length > 0) {
+      // Dekorátorok nélkül a Lit a static properties mezőt olvassa
+      members.push(
+        '',
+        'static properties = {',
+        ...props.map(p => `  ${p.name}: { type: ${typeName(p.type)} },`),
+        '};',
+        '',
+        'constructor() {',
+        '  super();',
+        ...props.filter(p => !p.optional).map(p => `  this.${p.name} = '';`),
+        '}'
+      );
+    }
+
+    // Egyéni kód beépítése
+    if (this.customCode.jsx) {
+      members.push('', '// === EGYÉNI KÓD ===', this.customCode.jsx, '// === EGYÉNI KÓD VÉGE ===');
+    }
+
+    members.push('', 'render() {', '  return html`', template, '  `;', '}');
+
+    const imports = ["import { LitElement, css, html } from 'lit';"];
+    if (this.options.typescript) {
+      imports.push(`import { customElement${props.length > 0 ? ', property' : ''} } from 'lit/decorators.js';`);
+    }
+
+    const classDeclaration = `export class ${componentName} extends LitElement {
+${this.indentLines(members.join('\n'), 1)}
+}`;
+
+    if (!this.options.typescript) {
+      return `${imports.join('\n')}
+
+${classDeclaration}
+
+customElements.define('${tagName}', ${componentName});
+`;
+    }
+
+    return `${imports.join('\n')}
+
+@customElement('${tagName}')
+${classDeclaration}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    '${tagName}': ${componentName};
+  }
+}
+`;
+  }
+
+  private generateLitTemplate(node: DesignNode, depth: number, isRoot: boolean): string {
+    const indent = '  '.repeat(depth);
+    const attributes = [`class="${node.className}"`, ...this.tagAttributes(node)];
+
+    if (node.role === 'image') {
+      attributes.push(...(isRoot ? ['src=${this.src}', 'alt=${this.alt}'] : ['src=""', `alt="${this.escapeLitText(node.name)}"`]));
+    }
+
+    if (node.role === 'vector') {
+      return svgMarkup(node, attributes, indent);
+    }
+
+    const open = `<${node.tag}${attributes.map(a => ` ${a}`).join('')}>`;
+
+    if (node.text) {
+      const text = this.escapeLitText(node.text);
+      const slot = isRoot ? `<slot>${text}</slot>` : `<slot name="${node.className}">${text}</slot>`;
+      return `${indent}${open}${slot}</${node.tag}>`;
+    }
+
+    if (this.isVoidTag(node.tag)) {
+      return `${indent}${open}`;
+    }
+
+    const children = node.children.map(child => this.generateLitTemplate(child, depth + 1, false));
+    if (children.length === 0) {
+      return `${indent}${open}</${node.tag}>`;
+    }
+
+    return `${indent}${open}
+${children.join('\n')}
+${indent}</${node.tag}>`;
+  }
+
+  // A html`` sablonban a szöveg HTML-ként és template literalként is biztonságos kell legyen
+  private escapeLitText(text: string): string {
+    return this.escapeTemplateLiteral(this.escapeHtml(text));
+  }
+
+  private escapeTemplateLiteral(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  }
+
+  // SwiftUI nézet: auto-layout -> VStack/HStack, egyéb frame -> ZStack eltolt
+  // gyerekekkel; padding, frame, background, cornerRadius és shadow modifierekkel
+  private generateSwiftUIStruct(node: DesignNode, componentName: string): string {
+    const members: string[] = [];
+    const previewArgs: string[] = [];
+    componentProps(node).forEach(p => {
+      // A szöveg prop alapértéke a tervben szereplő szöveg
+      if (p.name === 'text') {
+        members.push(`var text: String = ${this.toSwiftString(node.text || '')}`);
+      } else {
+        members.push(`let ${p.name}: String`);
+        previewArgs.push(`${p.name}: ${p.name === 'alt' ? this.toSwiftString(node.name) : '""'}`);
+      }
+    });
+
+    // Egyéni kód beépítése
+    if (this.customCode.jsx) {
+      members.push('', '// === EGYÉNI KÓD ===', this.customCode.jsx, '// === EGYÉNI KÓD VÉGE ===');
+    }
+
+    const body = this.generateSwiftUIView(node, true);
+    const memberLines = members.length > 0 ? `${this.indentLines(members.join('\n'), 2)}\n\n` : '';
+
+    return `import SwiftUI
+
+struct ${componentName}: View {
+${memberLines}    var body: some View {
+${this.indentLines(body.join('\n'), 4)}
+    }
+}
+
+#Preview {
+    ${componentName}(${previewArgs.join(', ')})
+}
+`;
+  }
+
+  // Sorok listája; a többsoros nézetek modifierei a záró zárójel szintjén, az egysorosaké beljebb
+  private generateSwiftUIView(node: DesignNode, isRoot: boolean): string[] {
+    const { style } = node;
+    const fill = firstSolidColor(style.fills);
+    const border = uniformStroke(style);
+    const divider = this.nativeDivider(node);
+    const frame = style.width !== undefined && style.height !== undefined
+      ? `width: ${this.formatNumber(style.width)}, height: ${this.formatNumber(style.height)}`
+      : '';
+    const modifiers: string[] = [];
+    let view: string[];
+
+    if (node.text !== undefined) {
+      view = [`Text(${isRoot ? 'text' : this.toSwiftString(node.text)})`];
+      const text = style.text;
+      if (text) {
+        modifiers.push(`.font(.custom(${this.toSwiftString(text.fontFamily)}, size: ${this.formatNumber(text.fontSize)}))`);
+        if (text.fontWeight) modifiers.push(`.fontWeight(.${this.swiftFontWeight(text.fontWeight)})`);
+        if (text.letterSpacing) modifiers.push(`.kerning(${this.formatNumber(text.letterSpacing)})`);
+        // A SwiftUI a sorok közti többletet várja, nem a teljes sormagasságot
+        if (text.lineHeight && text.lineHeight > text.fontSize) {
+          modifiers.push(`.lineSpacing(${this.formatNumber(text.lineHeight - text.fontSize)})`);
+        }
+      }
+      if (style.color) modifiers.push(`.foregroundColor(${this.toSwiftColor(style.color)})`);
+    } else if (node.role === 'image') {
+      view = isRoot
+        ? ['AsyncImage(url: URL(string: src)) { image in', '    image.resizable().scaledToFill()', '} placeholder: {', '    Color.gray.opacity(0.2)', '}']
+        : ['Color.gray.opacity(0.2)'];
+      if (frame) modifiers.push(`.frame(${frame})`);
+      modifiers.push('.clipped()', `.accessibilityLabel(${isRoot ? 'alt' : this.toSwiftString(node.name)})`);
+    } else if (divider) {
+      view = [`Rectangle().fill(${this.toSwiftColor(divider.color)})`];
+      modifiers.push(`.frame(width: ${this.formatNumber(divider.width)}, height: ${this.formatNumber(divider.height)})`);
+    } else if (node.children.length > 0) {
+      view = this.generateSwiftUIStack(node);
+      if (style.padding) {
+        const { top, left, bottom, right } = style.padding;
+        const [topValue, leading, bottomValue, trailing] = [top, left, bottom, right].map(value => this.formatNumber(value));
+        modifiers.push(`.padding(EdgeInsets(top: ${topValue}, leading: ${leading}, bottom: ${bottomValue}, trailing: ${trailing}))`);
+      }
+      if (frame) modifiers.push(`.frame(${frame}, alignment: .topLeading)`);
+      if (fill) modifiers.push(`.background(${this.toSwiftColor(fill)})`);
+      if (style.cornerRadii) {
+        modifiers.push(`.clipShape(${this.swiftRoundedShape(style)})`);
+      } else if (style.cornerRadius) {
+        modifiers.push(`.cornerRadius(${this.formatNumber(style.cornerRadius)})`);
+      }
+      if (border) {
+        const outline = this.swiftRoundedShape(style) || 'RoundedRectangle(cornerRadius: 0)';
+        modifiers.push(`.overlay(${outline}.stroke(${this.toSwiftColor(border.color)}, lineWidth: ${this.formatNumber(border.width)}))`);
+      }
+    } else {
+      // Levél alakzat: a kitöltés magára a formára kerül
+      const shape = node.type === 'ELLIPSE' ? 'Ellipse()' : this.swiftRoundedShape(style) || 'Rectangle()';
+      view = [`${shape}.fill(${fill ? this.toSwiftColor(fill) : 'Color.clear'})`];
+      if (border) {
+        modifiers.push(`.overlay(${shape}.stroke(${this.toSwiftColor(border.color)}, lineWidth: ${this.formatNumber(border.width)}))`);
+      }
+      if (frame) modifiers.push(`.frame(${frame})`);
+    }
+
+    const [shadow] = dropShadows(style);
+    if (shadow) {
+      modifiers.push(`.shadow(color: ${this.toSwiftColor(shadow.color)}, radius: ${this.formatNumber(shadow.blur / 2)}, x: ${this.formatNumber(shadow.x)}, y: ${this.formatNumber(shadow.y)})`);
+    }
+    if (style.opacity !== undefined) {
+      modifiers.push(`.opacity(${this.formatNumber(style.opacity)})`);
+    }
+
+    if (style.offset) modifiers.push(`.offset(x: ${this.formatNumber(style.offset.x)}, y: ${this.formatNumber(style.offset.y)})`);
+
+    const modifierIndent = view.length > 1 ? '' : '    ';
+    return [...view, ...modifiers.map(modifier => `${modifierIndent}${modifier}`)];
+  }
+
+  private generateSwiftUIStack(node: DesignNode): string[] {
+    const { layout } = node.style;
+    const childLines = (child: DesignNode) => this.generateSwiftUIView(child, false);
+
+    if (layout) {
+      const horizontal = layout.direction === 'row';
+      const alignment = horizontal
+        ? { start: 'top', center: 'center', end: 'bottom', baseline: 'firstTextBaseline' }[layout.align || 'start']
+        : { start: 'leading', center: 'center', end: 'trailing', baseline: 'leading' }[layout.align || 'start'];
+
+      // A fő tengely menti igazítást Spacer()-ek adják
+      const items: string[][] = [];
+      const distribute = layout.justify;
+      if (distribute === 'center' || distribute === 'end') items.push(['Spacer()']);
+      node.children.forEach((child, index) => {
+        if (index > 0 && distribute === 'space-between') items.push(['Spacer()']);
+        items.push(childLines(child));
+      });
+      if (distribute === 'center') items.push(['Spacer()']);
+
+      const spacing = distribute === 'space-between' ? 0 : layout.gap;
+      const header = `${horizontal ? 'HStack' : 'VStack'}(alignment: .${alignment}, spacing: ${this.formatNumber(spacing)}) {`;
+      return [header, ...items.flat().map(line => `    ${line}`), '}'];
+    }
+
+    return ['ZStack(alignment: .topLeading) {', ...node.children.flatMap(childLines).map(line => `    ${line}`), '}'];
+  }
+
+  private swiftFontWeight(weight: number): string {
+    const weights = ['ultraLight', 'thin', 'light', 'regular', 'medium', 'semibold', 'bold', 'heavy', 'black'];
+    return weights[Math.min(8, Math.max(0, Math.round(weight / 100) - 1))];
+  }
+
+  // Eltérő sarkokhoz az UnevenRoundedRectangle kell (iOS 17+)
+  private swiftRoundedShape(style: DesignNode['style']): string | undefined {
+    if (style.cornerRadii) {
+      const { topLeft, topRight, bottomRight, bottomLeft } = style.cornerRadii;
+      const radii = [['topLeadingRadius', topLeft], ['bottomLeadingRadius', bottomLeft], ['bottomTrailingRadius', bottomRight], ['topTrailingRadius', topRight]] as const;
+      return `UnevenRoundedRectangle(${radii.map(([name, radius]) => `${name}: ${this.formatNumber(radius)}`).join(', ')})`;
+    }
+    return style.cornerRadius ? `RoundedRectangle(cornerRadius: ${this.formatNumber(style.cornerRadius)})` : undefined;
+  }
+
+  private toSwiftColor(color: DesignColor): string {
+    const channels = `red: ${this.formatNumber(color.r)}, green: ${this.formatNumber(color.g)}, blue: ${this.formatNumber(color.b)}`;
+    return color.a === 1 ? `Color(${channels})` : `Color(${channels}, opacity: ${this.formatNumber(color.a)})`;
+  }
+
+  private toSwiftString(text: string): string {
+    const escaped = text
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r');
+    return `"${escaped}"`;
+  }
+
+  // Jetpack Compose: auto-layout -> Column/Row Arrangement-tel, egyéb frame -> Box
+  // offset-elt gyerekekkel; a vizuális tulajdonságok Modifier láncba kerülnek
+  private generateComposeFunction(node: DesignNode, componentName: string): string {
+    const imports = new Set<string>([
+      'androidx.compose.runtime.Composable',
+      'androidx.compose.ui.Modifier',
+      'androidx.compose.ui.tooling.preview.Preview',
+    ]);
+
+    // A kötelező paraméterek a modifier elé, az alapértékesek mögé kerülnek
+    const props = componentProps(node);
+    const params = [
+      ...props.filter(p => !p.optional).map(p => `${p.name}: String`),
+      'modifier: Modifier = Modifier',
+      ...props.filter(p => p.optional).map(p => `${p.name}: String = ${this.toKotlinString(node.text || '')}`),
+    ];
+    const previewArgs = props.filter(p => !p.optional).map(p =>
+      `${p.name} = ${p.name === 'alt' ? this.toKotlinString(node.name) : '""'}`
+    );
+
+    const body = this.generateComposeNode(node, true, imports);
+
+    // Egyéni kód beépítése
+    const customSection = this.customCode.jsx
+      ? `    // === EGYÉNI KÓD ===\n${this.indentLines(this.customCode.jsx, 2)}\n    // === EGYÉNI KÓD VÉGE ===\n`
+      : '';
+
+    return `${Array.from(imports).sort().map(name => `import ${name}`).join('\n')}
+
+@Composable
+fun ${componentName}(
+${params.map(param => `    ${param},`).join('\n')}
+) {
+${customSection}${this.indentLines(body.join('\n'), 2)}
+}
+
+@Preview
+@Composable
+private fun ${componentName}Preview() {
+    ${componentName}(${previewArgs.join(', ')})
+}
+`;
+  }
+
+  private generateComposeNode(node: DesignNode, isRoot: boolean, imports: Set<string>): string[] {
+    const { style } = node;
+    const fill = firstSolidColor(style.fills);
+    const chain: string[] = [];
+    const use = (name: string) => imports.add(name);
+
+    if (style.offset) {
+      use('androidx.compose.foundation.layout.offset');
+      use('androidx.compose.ui.unit.dp');
+      chain.push(`.offset(x = ${this.composeUnit(style.offset.x, 'dp')}, y = ${this.composeUnit(style.offset.y, 'dp')})`);
+    }
+
+    if (node.text !== undefined) {
+      use('androidx.compose.material3.Text');
+      const text = style.text;
+      const args = [`text = ${isRoot ? 'text' : this.toKotlinString(node.text)}`];
+      const modifier = this.composeModifier(chain, isRoot);
+      if (modifier) args.push(modifier);
+
+      if (style.color) {
+        use('androidx.compose.ui.graphics.Color');
+        args.push(`color = ${this.toComposeColor(style.color)}`);
+      }
+      if (text) {
+        use('androidx.compose.ui.unit.sp');
+        args.push(`fontSize = ${this.composeUnit(text.fontSize, 'sp')}`);
+        if (text.fontWeight) {
+          use('androidx.compose.ui.text.font.FontWeight');
+          args.push(`fontWeight = FontWeight.W${Math.min(900, Math.max(100, Math.round(text.fontWeight / 100) * 100))}`);
+        }
+        if (text.lineHeight !== undefined) args.push(`lineHeight = ${this.composeUnit(text.lineHeight, 'sp')}`);
+        if (text.letterSpacing) args.push(`letterSpacing = ${this.composeUnit(text.letterSpacing, 'sp')}`);
+      }
+
+      // A Figma betűtípust a projekt saját FontFamily-jével kell összekötni
+      const fontNote = text ? [`// Font: ${text.fontFamily.replace(/[\r\n]/g, ' ')}`] : [];
+      return this.wrapComposeAlpha(node, [...fontNote, ...this.composeCall('Text', args)], imports);
+    }
+
+    const divider = this.nativeDivider(node);
+    if (divider) {
+      use('androidx.compose.foundation.background');
+      use('androidx.compose.foundation.layout.Box');
+      use('androidx.compose.foundation.layout.size');
+      use('androidx.compose.ui.graphics.Color');
+      use('androidx.compose.ui.unit.dp');
+      chain.push(
+        `.size(width = ${this.composeUnit(divider.width, 'dp')}, height = ${this.composeUnit(divider.height, 'dp')})`,
+        `.background(${this.toComposeColor(divider.color)})`,
+      );
+      return this.wrapComposeAlpha(node, this.composeCall('Box', [this.composeModifier(chain, isRoot)]), imports);
+    }
+
+    if (style.width !== undefined && style.height !== undefined) {
+      use('androidx.compose.foundation.layout.size');
+      use('androidx.compose.ui.unit.dp');
+      chain.push(`.size(width = ${this.composeUnit(style.width, 'dp')}, height = ${this.composeUnit(style.height, 'dp')})`);
+    }
+
+    if (node.role === 'image') {
+      if (isRoot) {
+        use('coil.compose.AsyncImage');
+        use('androidx.compose.ui.layout.ContentScale');
+        const args = ['model = src', 'contentDescription = alt'];
+        const modifier = this.composeModifier(chain, isRoot);
+        if (modifier) args.push(modifier);
+        args.push('contentScale = ContentScale.Crop');
+        return this.composeCall('AsyncImage', args);
+      }
+      // Beágyazott képnek nincs forrása, a helyét jelöljük
+      use('androidx.compose.foundation.background');
+      use('androidx.compose.foundation.layout.Box');
+      use('androidx.compose.ui.graphics.Color');
+      chain.push('.background(Color.LightGray)');
+      return this.composeCall('Box', [this.composeModifier(chain, isRoot)]);
+    }
+
+    const corners = style.cornerRadii;
+    const shape = node.type === 'ELLIPSE' ? 'CircleShape'
+      : corners ? `RoundedCornerShape(topStart = ${this.composeUnit(corners.topLeft, 'dp')}, topEnd = ${this.composeUnit(corners.topRight, 'dp')}, bottomEnd = ${this.composeUnit(corners.bottomRight, 'dp')}, bottomStart = ${this.composeUnit(corners.bottomLeft, 'dp')})`
+      : style.cornerRadius ? `RoundedCornerShape(${this.composeUnit(style.cornerRadius, 'dp')})`
+      : '';
+    if (shape === 'CircleShape') use('androidx.compose.foundation.shape.CircleShape');
+    if (shape.startsWith('RoundedCornerShape')) {
+      use('androidx.compose.foundation.shape.RoundedCornerShape');
+      use('androidx.compose.ui.unit.dp');
+    }
 
-  // Egyéni kód beállítása
-  setCustomCode(customCode: CustomCodeInputs) {
-    this.customCode = customCode;
-  }
+    const [shadow] = dropShadows(style);
+    if (shadow) {
+      use('androidx.compose.ui.draw.shadow');
+      use('androidx.compose.ui.unit.dp');
+      chain.push(`.shadow(elevation = ${this.composeUnit(shadow.blur / 2, 'dp')}${shape ? `, shape = ${shape}` : ''})`);
+    }
+    const border = uniformStroke(style);
+    if (border) {
+      use('androidx.compose.foundation.border');
+      use('androidx.compose.ui.graphics.Color');
+      use('androidx.compose.ui.unit.dp');
+      chain.push(`.border(${this.composeUnit(border.width, 'dp')}, ${this.toComposeColor(border.color)}${shape ? `, ${shape}` : ''})`);
+    }
+    if (fill) {
+      use('androidx.compose.foundation.background');
+      use('androidx.compose.ui.graphics.Color');
+      chain.push(`.background(${this.toComposeColor(fill)}${shape ? `, ${shape}` : ''})`);
+    }
+    if (style.padding) {
+      use('androidx.compose.foundation.layout.padding');
+      use('androidx.compose.ui.unit.dp');
+      const { left, top, right, bottom } = style.padding;
+      const [start, topValue, end, bottomValue] = [left, top, right, bottom].map(value => this.composeUnit(value, 'dp'));
+      chain.push(`.padding(start = ${start}, top = ${topValue}, end = ${end}, bottom = ${bottomValue})`);
+    }
 
-  // Fő generálási metódus
-  generateComponents(): GeneratedComponent[] {
-    const components: GeneratedComponent[] = [];
-    
-    // Komponensek generálása
-    Object.entries(this.figmaData.components || {}).forEach(([key, component]) => {
-      const node = this.findNodeById(component.key);
-      if (node) {
-        const generatedComponent = this.generateSingleComponent(node, component.name);
-        components.push(generatedComponent);
+    const modifier = this.composeModifier(chain, isRoot);
+    const content = node.children.flatMap(child => this.generateComposeNode(child, false, imports));
+
+    let lines: string[];
+    const { layout } = style;
+    if (layout) {
+      const horizontal = layout.direction === 'row';
+      use(`androidx.compose.foundation.layout.${horizontal ? 'Row' : 'Column'}`);
+      use('androidx.compose.foundation.layout.Arrangement');
+      use('androidx.compose.ui.Alignment');
+
+      const args = modifier ? [modifier] : [];
+      args.push(`${horizontal ? 'horizontalArrangement' : 'verticalArrangement'} = ${this.composeArrangement(node, horizontal, imports)}`);
+      if (layout.align) {
+        const alignment = horizontal
+          ? { start: 'Top', center: 'CenterVertically', end: 'Bottom', baseline: 'Top' }[layout.align]
+          : { start: 'Start', center: 'CenterHorizontally', end: 'End', baseline: 'Start' }[layout.align];
+        args.push(`${horizontal ? 'verticalAlignment' : 'horizontalAlignment'} = Alignment.${alignment}`);
       }
-    });
+      lines = this.composeCall(horizontal ? 'Row' : 'Column', args, content);
+    } else {
+      use('androidx.compose.foundation.layout.Box');
+      lines = this.composeCall('Box', modifier ? [modifier] : [], content.length > 0 ? content : undefined);
+    }
 
-    // Ha nincsenek komponensek, generáljuk a fő frame-eket
-    if (components.length === 0) {
-      this.findMainFrames(this.figmaData.document).forEach(frame => {
-        const generatedComponent = this.generateSingleComponent(frame, frame.name);
-        components.push(generatedComponent);
-      });
+    return this.wrapComposeAlpha(node, lines, imports);
+  }
+
+  private composeArrangement(node: DesignNode, horizontal: boolean, imports: Set<string>): string {
+    const start = horizontal ? 'Start' : 'Top';
+    const end = horizontal ? 'End' : 'Bottom';
+    const center = horizontal ? 'CenterHorizontally' : 'CenterVertically';
+    const gap = node.style.layout?.gap || 0;
+
+    switch (node.style.layout?.justify) {
+      case 'space-between': return 'Arrangement.SpaceBetween';
+      case 'center':
+        if (!gap) return 'Arrangement.Center';
+        imports.add('androidx.compose.ui.unit.dp');
+        return `Arrangement.spacedBy(${this.composeUnit(gap, 'dp')}, Alignment.${center})`;
+      case 'end':
+        if (!gap) return `Arrangement.${end}`;
+        imports.add('androidx.compose.ui.unit.dp');
+        return `Arrangement.spacedBy(${this.composeUnit(gap, 'dp')}, Alignment.${end})`;
+      default:
+        if (!gap) return `Arrangement.${start}`;
+        imports.add('androidx.compose.ui.unit.dp');
+        return `Arrangement.spacedBy(${this.composeUnit(gap, 'dp')})`;
     }
+  }
 
-    return components;
+  // "modifier = Modifier" és a lánc soronként; a gyökér a hívó modifier paraméterét folytatja
+  private composeModifier(chain: string[], isRoot: boolean): string {
+    const head = isRoot ? 'modifier' : 'Modifier';
+    if (chain.length === 0) return isRoot ? 'modifier = modifier' : '';
+    return [`modifier = ${head}`, ...chain.map(link => `    ${link}`)].join('\n');
   }
 
-  private generateSingleComponent(node: FigmaNode, componentName: string): GeneratedComponent {
-    const startTime = Date.now();
-    
-    const sanitizedName = this.sanitizeComponentName(componentName);
-    const jsx = this.generateJSX(node, sanitizedName);
-    const css = this.generateCSS(node, sanitizedName);
-    const accessibility = this.analyzeAccessibility(node);
-    const responsive = this.analyzeResponsive(node);
-    const metadata = this.generateMetadata(node, Date.now() - startTime);
+  private composeCall(name: string, args: string[], content?: string[]): string[] {
+    const argLines = args.filter(Boolean).flatMap(arg => {
+      const lines = arg.split('\n');
+      lines[lines.length - 1] += ',';
+      return lines.map(line => `    ${line}`);
+    });
+    const head = argLines.length > 0 ? [`${name}(`, ...argLines, ')'] : [name];
+    if (!content) return argLines.length > 0 ? head : [`${name}()`];
 
-    return {
-      id: node.id,
-      name: sanitizedName,
-      jsx,
-      css,
-      ...(this.options.typescript && { typescript: this.generateTypeScript(node, sanitizedName) }),
-      accessibility,
-      responsive,
-      metadata,
-    };
+    const last = head.length - 1;
+    head[last] = `${head[last]} {`;
+    return [...head, ...content.map(line => `    ${line}`), '}'];
   }
 
-  // JSX generálás fejlett logikával + egyéni kód
-  private generateJSX(node: FigmaNode, componentName: string): string {
-    const props = this.extractProps(node);
-    const children = this.generateChildren(node);
-    const className = this.generateClassName(node);
-    const styles = this.generateInlineStyles(node);
+  private wrapComposeAlpha(node: DesignNode, lines: string[], imports: Set<string>): string[] {
+    if (node.style.opacity === undefined) return lines;
+    imports.add('androidx.compose.foundation.layout.Box');
+    imports.add('androidx.compose.ui.draw.alpha');
+    return [`Box(modifier = Modifier.alpha(${this.formatNumber(node.style.opacity)}f)) {`, ...lines.map(line => `    ${line}`), '}'];
+  }
 
-    if (this.options.framework === 'react') {
-      const imports = this.generateImports(node);
-      const propsInterface = this.options.typescript ? this.generatePropsInterface(props, componentName) : '';
-      const componentSignature = this.options.typescript 
-        ? `export const ${componentName}: React.FC<${componentName}Props> = ({ ${props.map(p => p.name).join(', ')} })`
-        : `export const ${componentName} = ({ ${props.map(p => p.name).join(', ')} })`;
+  private composeUnit(value: number, unit: 'dp' | 'sp'): string {
+    const number = this.formatNumber(value);
+    return value < 0 ? `(${number}).${unit}` : `${number}.${unit}`;
+  }
 
-      // Egyéni JSX kód beépítése
-      const customJSXSection = this.customCode.jsx ? `
-  // === EGYÉNI JSX KÓD ===
-  ${this.customCode.jsx}
-  // === EGYÉNI JSX KÓD VÉGE ===
-` : '';
+  private toComposeColor(color: DesignColor): string {
+    return `Color(0x${this.toARGBHex(color)})`;
+  }
 
-      return `${imports}
-${propsInterface}
-${componentSignature} => {${customJSXSection}
-  return (
-    ${this.generateJSXElement(node, className, styles, children, 1)}
-  );
-};
+  private toKotlinString(text: string): string {
+    const escaped = text
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\$/g, '\\$')
+      .replace(/\n/g, '\\n')
+      .replace(/\r/g, '\\r');
+    return `"${escaped}"`;
+  }
 
-export default ${componentName};`;
+  // Angular standalone komponens: signal alapú input()-ok a propokból, output()
+  // a kattintható node-okhoz, külső sablon és stíluslap
+  private generateAngularComponent(node: DesignNode, componentName: string): string {
+    const fileName = angularFileName(componentName);
+    const styleExtension = this.options.styling === 'plain-css' ? 'css' : 'scss';
+    const inputs = this.extractTemplateProps(node);
+    const outputs = Array.from(this.assignAngularOutputs(node).values());
+
+    const imports = ['ChangeDetectionStrategy', 'Component'];
+    if (inputs.length > 0) imports.push('input');
+    if (outputs.length > 0) imports.push('output');
+
+    const members = [
+      ...inputs.map(p => p.optional
+        ? `readonly ${p.name} = input<${p.type}>();`
+        : `readonly ${p.name} = input.required<${p.type}>();`),
+      ...(inputs.length > 0 && outputs.length > 0 ? [''] : []),
+      ...outputs.map(name => `readonly ${name} = output<void>();`),
+    ];
+
+    // Egyéni kód beépítése
+    if (this.customCode.jsx) {
+      if (members.length > 0) members.push('');
+      members.push('// === EGYÉNI KÓD ===', this.customCode.jsx, '// === EGYÉNI KÓD VÉGE ===');
     }
 
-    // HTML generálás
-    if (this.options.framework === 'html') {
-      return this.generateHTML(node, className, styles, children);
-    }
+    const body = members.length > 0 ? `\n${this.indentLines(members.join('\n'), 1)}\n` : '';
+
+    return `import { ${imports.join(', ')} } from '@angular/core';
 
-    return jsx;
+@Component({
+  selector: 'app-${fileName}',
+  standalone: true,
+  templateUrl: './${fileName}.component.html',
+  styleUrl: './${fileName}.component.${styleExtension}',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class ${componentName}Component {${body}}
+`;
+  }
+
+  private generateAngularTemplate(node: DesignNode): string {
+    const outputs = this.assignAngularOutputs(node);
+    return `${this.generateAngularElement(node, outputs, 0, true)}\n`;
   }
 
-  private generateJSXElement(node: FigmaNode, className: string, styles: string, children: string, depth: number): string {
+  private generateAngularElement(node: DesignNode, outputs: Map<string, string>, depth: number, isRoot: boolean): string {
     const indent = '  '.repeat(depth);
-    const tag = this.getHtmlTag(node);
-    const attributes = this.generateAttributes(node);
-    
-    if (node.type === 'TEXT' && node.characters) {
-      return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes}>
-${indent}  {${node.characters ? `"${node.characters}"` : 'children'}}
-${indent}</${tag}>`;
+    const { tag } = node;
+    const classes = this.options.styling === 'tailwind' ? tailwindClasses(node) : node.className;
+    const attributes = classes ? [`class="${this.escapeHtml(classes)}"`] : [];
+    attributes.push(...this.tagAttributes(node));
+
+    if (node.role === 'image') {
+      attributes.push(...(isRoot ? ['[src]="src()"', '[alt]="alt()"'] : ['src=""', `alt="${this.escapeHtml(node.name)}"`]));
     }
 
-    if (children) {
-      return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes}>
-${children}
-${indent}</${tag}>`;
+    const output = outputs.get(node.id);
+    if (output) {
+      attributes.push(`(click)="${output}.emit()"`);
+      // Nem natív gomb vagy link, ezért billentyűzetről is elérhetővé tesszük
+      if (this.options.accessibility && tag !== 'button' && tag !== 'a') {
+        attributes.push('role="button"', 'tabindex="0"', `(keydown.enter)="${output}.emit()"`);
+      }
     }
 
-    return `${indent}<${tag}${className ? ` className="${className}"` : ''}${styles ? ` style={${styles}}` : ''}${attributes} />`;
-  }
+    if (node.role === 'vector') {
+      return svgMarkup(node, attributes, indent);
+    }
 
-  private generateChildren(node: FigmaNode): string {
-    if (!node.children || node.children.length === 0) return '';
-    
-    return node.children
-      .map(child => {
-        const childClassName = this.generateClassName(child);
-        const childStyles = this.generateInlineStyles(child);
-        const grandChildren = this.generateChildren(child);
-        return this.generateJSXElement(child, childClassName, childStyles, grandChildren, 2);
-      })
-      .join('\n');
-  }
+    const open = `<${tag}${attributes.map(a => ` ${a}`).join('')}`;
 
-  // CSS generálás fejlett logikával + egyéni CSS
-  private generateCSS(node: FigmaNode, componentName: string): string {
-    let baseCSS = '';
-    
-    if (this.options.styling === 'tailwind') {
-      baseCSS = this.generateTailwindCSS(node);
-    } else {
-      const styles = this.extractAllStyles(node);
-      const cssRules = this.convertToCSSRules(styles, componentName);
-      
-      if (this.options.styling === 'css-modules') {
-        baseCSS = this.generateCSSModules(cssRules);
-      } else if (this.options.styling === 'styled-components') {
-        baseCSS = this.generateStyledComponents(cssRules, componentName);
-      } else {
-        baseCSS = this.generatePlainCSS(cssRules, componentName);
-      }
+    if (node.text) {
+      const text = this.escapeAngularText(node.text);
+      return `${indent}${open}>${isRoot ? `<ng-content>${text}</ng-content>` : text}</${tag}>`;
     }
 
-    // Egyéni CSS hozzáadása
-    const customCSSSection = this.customCode.css ? `
+    if (this.isVoidTag(tag)) {
+      return `${indent}${open} />`;
+    }
 
-/* === EGYÉNI CSS STÍLUSOK === */
-${this.customCode.css}
-/* === EGYÉNI CSS STÍLUSOK VÉGE === */` : '';
+    const children = node.children.map(child => this.generateAngularElement(child, outputs, depth + 1, false));
+    if (children.length === 0) {
+      return `${indent}${open}></${tag}>`;
+    }
 
-    // Fejlett CSS++ hozzáadása
-    const advancedCSSSection = this.customCode.cssAdvanced ? `
+    return `${indent}${open}>
+${children.join('\n')}
+${indent}</${tag}>`;
+  }
 
-/* === FEJLETT CSS++ FUNKCIÓK === */
-${this.customCode.cssAdvanced}
-/* === FEJLETT CSS++ FUNKCIÓK VÉGE === */` : '';
+  // Kattintható node-ok (gomb, link) output nevei: "Primary Button" -> primaryButtonClick
+  private assignAngularOutputs(root: DesignNode): Map<string, string> {
+    const outputs = new Map<string, string>();
+    const used = new Set<string>();
+
+    const visit = (node: DesignNode) => {
+      if (node.interactive) {
+        const base = this.sanitizeComponentName(node.name);
+        let name = `${base.charAt(0).toLowerCase()}${base.slice(1)}Click`;
+        for (let index = 2; used.has(name); index++) {
+          name = `${base.charAt(0).toLowerCase()}${base.slice(1)}Click${index}`;
+        }
+        used.add(name);
+        outputs.set(node.id, name);
+      }
+      node.children.forEach(visit);
+    };
 
-    return `${baseCSS}${customCSSSection}${advancedCSSSection}`;
+    visit(root);
+    return outputs;
   }
 
-  private extractAllStyles(node: FigmaNode): Record<string, any> {
-    const styles: Record<string, any> = {};
+  // Az Angular sablonban a {{ interpolációt, a { } és @ vezérlő blokkot nyitna
+  private escapeAngularText(text: string): string {
+    return this.escapeHtml(text)
+      .replace(/\{/g, '&#123;')
+      .replace(/\}/g, '&#125;')
+      .replace(/@/g, '&#64;');
+  }
 
-    // Layout és pozíció
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      styles.width = `${width}px`;
-      styles.height = `${height}px`;
+  // Svelte komponens: `export let` propok, a node-fából épített markup, az
+  // egymás utáni azonos szerkezetű testvérek {#each} blokkba vonva, scoped <style>
+  private generateSvelteComponent(node: DesignNode): string {
+    const lists: string[] = [];
+    const markup = this.generateSvelteElement(node, new Map(), lists, 0, true);
+    const css = this.generateTreeCSS(node);
+
+    const sections = [this.generateSvelteScript(node, lists), markup];
+    if (css) {
+      // A Svelte stílusai eleve komponensre korlátozottak, CSS modules/styled-components nem kell
+      sections.push(`<style>\n${this.indentLines(css, 1)}\n</style>`);
     }
 
-    // Flexbox layout
-    if (node.layoutMode) {
-      styles.display = 'flex';
-      styles.flexDirection = node.layoutMode === 'HORIZONTAL' ? 'row' : 'column';
-      
-      if (node.itemSpacing) {
-        styles.gap = `${node.itemSpacing}px`;
-      }
+    return sections.filter(Boolean).join('\n\n') + '\n';
+  }
+
+  private generateSvelteScript(node: DesignNode, lists: string[]): string {
+    const lines: string[] = this.extractTemplateProps(node).map(p => {
+      if (!this.options.typescript) return `export let ${p.name}${p.optional ? ' = undefined' : ''};`;
+      return p.optional
+        ? `export let ${p.name}: ${p.type} | undefined = undefined;`
+        : `export let ${p.name}: ${p.type};`;
+    });
+
+    if (lists.length > 0) {
+      if (lines.length > 0) lines.push('');
+      lines.push(...lists);
     }
 
-    // Padding
-    if (node.paddingLeft || node.paddingRight || node.paddingTop || node.paddingBottom) {
-      styles.padding = `${node.paddingTop || 0}px ${node.paddingRight || 0}px ${node.paddingBottom || 0}px ${node.paddingLeft || 0}px`;
+    // Egyéni kód beépítése
+    if (this.customCode.jsx) {
+      lines.push('', '// === EGYÉNI KÓD ===', this.customCode.jsx, '// === EGYÉNI KÓD VÉGE ===');
     }
 
-    // Háttérszín
-    if (node.backgroundColor) {
-      styles.backgroundColor = this.colorToCSS(node.backgroundColor);
+    const body = lines.join('\n').trim();
+    if (!body) return '';
+    const lang = this.options.typescript ? ' lang="ts"' : '';
+    return `<script${lang}>\n${this.indentLines(body, 1)}\n</script>`;
+  }
+
+  // A bindings a szöveg node-okat {item.textN} kifejezésre köti az {#each} blokkon belül
+  private generateSvelteElement(
+    node: DesignNode,
+    bindings: Map<string, string>,
+    lists: string[],
+    depth: number,
+    isRoot: boolean
+  ): string {
+    const indent = '  '.repeat(depth);
+    const { tag } = node;
+    const classes = this.options.styling === 'tailwind' ? tailwindClasses(node) : node.className;
+    const attributes = classes ? [`class="${this.escapeHtml(classes)}"`] : [];
+    attributes.push(...this.tagAttributes(node));
+
+    if (node.role === 'image') {
+      attributes.push(...(isRoot ? ['{src}', '{alt}'] : ['src=""', `alt="${this.escapeSvelteText(node.name)}"`]));
     }
 
-    // Fills (háttér, gradientek)
-    if (node.fills && node.fills.length > 0) {
-      const fill = node.fills[0];
-      if (fill.type === 'SOLID' && fill.color) {
-        styles.backgroundColor = this.colorToCSS(fill.color, fill.opacity);
-      } else if (fill.type === 'GRADIENT_LINEAR') {
-        styles.background = this.gradientToCSS(fill);
-      }
+    if (node.role === 'vector') {
+      return svgMarkup(node, attributes, indent);
     }
 
-    // Border radius
-    if (node.cornerRadius) {
-      styles.borderRadius = `${node.cornerRadius}px`;
+    const open = `<${tag}${attributes.map(a => ` ${a}`).join('')}`;
+
+    if (node.text) {
+      const binding = bindings.get(node.id);
+      const text = binding ? `{${binding}}` : this.escapeSvelteText(node.text);
+      return `${indent}${open}>${isRoot ? `<slot>${text}</slot>` : text}</${tag}>`;
     }
 
-    // Strokes (border)
-    if (node.strokes && node.strokes.length > 0 && node.strokeWeight) {
-      const stroke = node.strokes[0];
-      if (stroke.color) {
-        styles.border = `${node.strokeWeight}px solid ${this.colorToCSS(stroke.color, stroke.opacity)}`;
-      }
+    if (this.isVoidTag(tag)) {
+      return `${indent}${open} />`;
     }
 
-    // Text stílusok
-    if (node.type === 'TEXT' && node.style) {
-      styles.fontFamily = `"${node.style.fontFamily}", sans-serif`;
-      styles.fontSize = `${node.style.fontSize}px`;
-      styles.lineHeight = `${node.style.lineHeightPx}px`;
-      styles.letterSpacing = `${node.style.letterSpacing}px`;
-      
-      if (node.style.fills && node.style.fills.length > 0) {
-        const textFill = node.style.fills[0];
-        if (textFill.color) {
-          styles.color = this.colorToCSS(textFill.color, textFill.opacity);
-        }
+    // Egy {#each}-en belül nem keresünk újabb ismétlődést, ott minden szöveg már kötött
+    const runs = bindings.size > 0
+      ? node.children.map(child => [child])
+      : this.groupRepeatedChildren(node);
+
+    const children = runs.map(run => {
+      if (run.length === 1) {
+        return this.generateSvelteElement(run[0], bindings, lists, depth + 1, false);
       }
+      return this.generateSvelteEach(run, lists, depth + 1);
+    });
+
+    if (children.length === 0) {
+      return `${indent}${open}></${tag}>`;
     }
 
-    // Opacity
-    if (node.opacity !== undefined && node.opacity !== 1) {
-      styles.opacity = node.opacity;
+    return `${indent}${open}>
+${children.join('\n')}
+${indent}</${tag}>`;
+  }
+
+  private generateSvelteEach(run: DesignNode[], lists: string[], depth: number): string {
+    const indent = '  '.repeat(depth);
+    const [first] = run;
+
+    // Az első példány szövegei adják a mezőket, a többi példány azonos sorrendben tölti ki
+    const fields = new Map<string, string>();
+    this.collectTextNodes(first).forEach((text, index) => fields.set(text.id, `item.text${index + 1}`));
+
+    const base = this.sanitizeComponentName(first.name.replace(/\s*\d+$/, ''));
+    let listName = `${base.charAt(0).toLowerCase()}${base.slice(1)}Items`;
+    while (lists.some(list => list.startsWith(`const ${listName} `))) {
+      listName = `${listName}${lists.length + 1}`;
     }
 
-    // Effects (shadows, blur)
-    if (node.effects && node.effects.length > 0) {
-      const shadows = node.effects
-        .filter(effect => effect.type === 'DROP_SHADOW' && effect.visible !== false)
-        .map(effect => this.effectToCSS(effect));
-      
-      if (shadows.length > 0) {
-        styles.boxShadow = shadows.join(', ');
+    const items = run.map(item => {
+      const values = this.collectTextNodes(item).map((text, index) =>
+        `text${index + 1}: ${this.toScriptString(text.text || '')}`
+      );
+      return `  { ${values.join(', ')} },`;
+    });
+    lists.push(`const ${listName} = [\n${items.join('\n')}\n];`);
+
+    const body = this.generateSvelteElement(first, fields, lists, depth + 1, false);
+    return `${indent}{#each ${listName} as item}
+${body}
+${indent}{/each}`;
+  }
+
+  // Egymás utáni, azonos szerkezetű testvérek csoportjai; az egyedi node-ok egyelemű csoportok
+  private groupRepeatedChildren(node: DesignNode): DesignNode[][] {
+    const runs: DesignNode[][] = [];
+    let previous = '';
+
+    node.children.forEach(child => {
+      const signature = this.structureSignature(child);
+      const run = runs[runs.length - 1];
+      if (run && signature === previous) {
+        run.push(child);
+      } else {
+        runs.push([child]);
       }
+      previous = signature;
+    });
+
+    return runs;
+  }
+
+  // Típus, réteg név (sorszám nélkül), a generált stílus és a gyerekek szerkezete; a szöveg
+  // tartalma nem számít. Az {#each} minden elemet az első osztályával rajzol, ezért csak az
+  // azonos stílusú testvérek kerülhetnek egy csoportba.
+  private structureSignature(node: DesignNode): string {
+    const children = node.children.map(child => this.structureSignature(child)).join(',');
+    return `${node.type}:${node.name.replace(/\s*\d+$/, '')}:${JSON.stringify(cssDeclarations(node))}[${children}]`;
+  }
+
+  private collectTextNodes(node: DesignNode): DesignNode[] {
+    if (node.text !== undefined) return node.text ? [node] : [];
+    return node.children.flatMap(child => this.collectTextNodes(child));
+  }
+
+  // A { és } a Svelte markupban kifejezést nyitna
+  private escapeSvelteText(text: string): string {
+    return this.escapeHtml(text).replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+  }
+
+  // Szkriptbe ágyazott szöveg; a < kódolása miatt egy </script> sem zárhatja le a blokkot
+  private toScriptString(text: string): string {
+    return JSON.stringify(text).replace(/</g, '\\u003c');
+  }
+
+  private indentLines(text: string, depth: number): string {
+    const indent = '  '.repeat(depth);
+    return text.split('\n').map(line => (line ? `${indent}${line}` : line)).join('\n');
+  }
+
+  // Vue 3 SFC: <script setup> típusos propokkal, a node-fából épített <template>,
+  // a stílusok pedig scoped vagy CSS modules blokkban a styling opció szerint
+  private generateVueSFC(node: DesignNode): string {
+    const template = this.generateVueElement(node, 1, true);
+    const css = this.generateTreeCSS(node).trim();
+
+    const sections = [this.generateVueScript(node), `<template>\n${template}\n</template>`];
+    if (css) {
+      // A styled-components Vue alatt nem értelmezhető, ott is scoped blokk készül
+      const styleAttribute = this.options.styling === 'css-modules' ? 'module' : 'scoped';
+      sections.push(`<style ${styleAttribute}>\n${css}\n</style>`);
     }
 
-    return styles;
+    return sections.filter(Boolean).join('\n\n') + '\n';
   }
 
-  private generateTailwindCSS(node: FigmaNode): string {
-    const classes = this.generateTailwindClasses(node);
-    return `/* Figma alapú Tailwind osztályok: ${classes} */
+  private generateVueScript(node: DesignNode): string {
+    const props = this.extractTemplateProps(node);
+    const lines: string[] = [];
 
-/* Komponens alapstílusok */
-.${this.sanitizeComponentName(node.name).toLowerCase()} {
-  @apply ${classes};
-}`;
+    // A props deklaráció akkor is ott áll, ha üres (a frame gyökerek jellemzően ilyenek),
+    // így minden komponens ugyanonnan bővíthető
+    const block = (open: string, members: string[], close: string) =>
+      members.length > 0 ? [open, ...members, close] : [`${open}${close}`];
+    if (this.options.typescript) {
+      lines.push(
+        ...block('interface Props {', props.map(p => `  ${p.name}${p.optional ? '?' : ''}: ${p.type};`), '}'),
+        '',
+        'defineProps<Props>();'
+      );
+    } else {
+      // TypeScript nélkül futásidejű prop deklaráció
+      lines.push(
+        ...block('defineProps({', props.map(p => `  ${p.name}: { type: ${this.vueRuntimeType(p.type)}, required: ${!p.optional} },`), '});')
+      );
+    }
+
+    // Egyéni kód beépítése
+    if (this.customCode.jsx) {
+      lines.push('', '// === EGYÉNI KÓD ===', this.customCode.jsx, '// === EGYÉNI KÓD VÉGE ===');
+    }
+
+    const lang = this.options.typescript ? ' lang="ts"' : '';
+    return `<script setup${lang}>\n${lines.join('\n').trim()}\n</script>`;
   }
 
-  private generateTailwindClasses(node: FigmaNode): string {
-    const classes: string[] = [];
+  private generateVueElement(node: DesignNode, depth: number, isRoot: boolean): string {
+    const indent = '  '.repeat(depth);
+    const { tag } = node;
+    const attributes = [this.vueClassAttribute(node), ...this.tagAttributes(node)];
 
-    // Layout
-    if (node.layoutMode === 'HORIZONTAL') {
-      classes.push('flex', 'flex-row');
-    } else if (node.layoutMode === 'VERTICAL') {
-      classes.push('flex', 'flex-col');
+    if (node.role === 'image') {
+      // Csak a gyökér kép kap src/alt propot, a beágyazott képek a réteg nevét kapják alt szövegnek
+      attributes.push(...(isRoot ? [':src="src"', ':alt="alt"'] : ['src=""', `alt="${this.escapeHtml(node.name)}"`]));
     }
 
-    // Spacing
-    if (node.itemSpacing) {
-      const gap = this.pxToTailwindSpacing(node.itemSpacing);
-      classes.push(`gap-${gap}`);
+    if (node.role === 'vector') {
+      return svgMarkup(node, attributes.filter(Boolean), indent);
     }
 
-    // Padding
-    if (node.paddingLeft) classes.push(`pl-${this.pxToTailwindSpacing(node.paddingLeft)}`);
-    if (node.paddingRight) classes.push(`pr-${this.pxToTailwindSpacing(node.paddingRight)}`);
-    if (node.paddingTop) classes.push(`pt-${this.pxToTailwindSpacing(node.paddingTop)}`);
-    if (node.paddingBottom) classes.push(`pb-${this.pxToTailwindSpacing(node.paddingBottom)}`);
+    const open = `<${tag}${attributes.filter(Boolean).map(a => ` ${a}`).join('')}`;
 
-    // Size
-    if (node.absoluteBoundingBox) {
-      const { width, height } = node.absoluteBoundingBox;
-      classes.push(`w-[${width}px]`, `h-[${height}px]`);
+    if (node.text) {
+      const text = this.escapeVueText(node.text);
+      return `${indent}${open}>${isRoot ? `<slot>${text}</slot>` : text}</${tag}>`;
     }
 
-    // Background color
-    if (node.backgroundColor) {
-      classes.push(this.colorToTailwind(node.backgroundColor));
+    const children = node.children.map(child => this.generateVueElement(child, depth + 1, false));
+    if (this.isVoidTag(tag) || children.length === 0) {
+      return `${indent}${open} />`;
     }
 
-    // Border radius
-    if (node.cornerRadius) {
-      classes.push(this.borderRadiusToTailwind(node.cornerRadius));
+    return `${indent}${open}>
+${children.join('\n')}
+${indent}</${tag}>`;
+  }
+
+  private vueClassAttribute(node: DesignNode): string {
+    if (this.options.styling === 'tailwind') {
+      const classes = tailwindClasses(node);
+      return classes ? `class="${this.escapeHtml(classes)}"` : '';
     }
 
-    // Text styles
-    if (node.type === 'TEXT' && node.style) {
-      if (node.style.fontSize) {
-        classes.push(this.fontSizeToTailwind(node.style.fontSize));
-      }
+    return this.options.styling === 'css-modules' ? `:class="$style['${node.className}']"` : `class="${node.className}"`;
+  }
+
+  // Vue és Svelte alatt a className átesik az attribútumokon, a szöveg pedig slotként jön
+  private extractTemplateProps(node: DesignNode): Array<{name: string, type: string, optional: boolean}> {
+    return this.extractProps(node).filter(p => p.name !== 'className' && p.name !== 'children');
+  }
+
+  private vueRuntimeType(type: string): string {
+    switch (type) {
+      case 'number': return 'Number';
+      case 'boolean': return 'Boolean';
+      default: return 'String';
     }
+  }
+
+  // A {{ a Vue sablonban interpolációt nyitna, ezért azt is kódoljuk
+  private escapeVueText(text: string): string {
+    return this.escapeHtml(text).replace(/\{\{/g, '{&#123;');
+  }
+
+  // CSS generálás fejlett logikával + egyéni CSS
+  private generateCSS(node: DesignNode, componentName: string): string {
+    if (this.options.styling === 'tailwind') {
+      return `${this.generateTailwindCSS(node)}${this.generateCustomCSS()}`;
+    }
+    if (this.options.styling === 'styled-components') {
+      return `${this.generateStyledComponents(node, componentName)}${this.generateCustomCSS()}`;
+    }
+    // Sima CSS és CSS modules: szabály minden node osztályára
+    return this.generateTreeCSS(node);
+  }
+
+  // Osztályonkénti szabályok a teljes köztes fára
+  private generateTreeCSS(node: DesignNode): string {
+    const rules: string[] = [];
+
+    // A shadow DOM-ba a globális Tailwind osztályok nem jutnak be, a Lit mindig saját stílust kap
+    if (this.options.styling !== 'tailwind' || this.options.framework === 'web-components') {
+      // Svelte alatt az ismétlődő testvérekből csak az első példány kerül a sablonba
+      const collapseRepeats = this.options.framework === 'svelte';
+      const visit = (current: DesignNode) => {
+        const declarations = cssDeclarations(current);
+        if (Object.keys(declarations).length > 0) {
+          rules.push(cssRule(`.${current.className}`, declarations));
+        }
+        if (collapseRepeats) {
+          this.groupRepeatedChildren(current).forEach(run => visit(run[0]));
+        } else {
+          current.children.forEach(visit);
+        }
+      };
+      visit(node);
+    }
+
+    return `${rules.join('\n\n')}${this.generateCustomCSS()}`.trim();
+  }
+
+  // Egyéni CSS és fejlett CSS++ szakaszok a generált stílusok után
+  private generateCustomCSS(): string {
+    // Egyéni CSS hozzáadása
+    const customCSSSection = this.customCode.css ? `
+
+/* === EGYÉNI CSS STÍLUSOK === */
+${this.customCode.css}
+/* === EGYÉNI CSS STÍLUSOK VÉGE === */` : '';
+
+    // Fejlett CSS++ hozzáadása
+    const advancedCSSSection = this.customCode.cssAdvanced ? `
+
+/* === FEJLETT CSS++ FUNKCIÓK === */
+${this.customCode.cssAdvanced}
+/* === FEJLETT CSS++ FUNKCIÓK VÉGE === */` : '';
+
+    return `${customCSSSection}${advancedCSSSection}`;
+  }
+
+  private generateTailwindCSS(node: DesignNode): string {
+    const classes = tailwindClasses(node);
+    return `/* Figma alapú Tailwind osztályok: ${classes} */
 
-    return classes.join(' ');
+/* Komponens alapstílusok */
+.${node.className} {
+  @apply ${classes};
+}`;
   }
 
   // Accessibility elemzés
@@ -439,64 +1953,6 @@ ${this.customCode.cssAdvanced}
       .replace(/^./, str => str.toUpperCase()) || 'Component';
   }
 
-  private colorToCSS(color: any, opacity?: number): string {
-    const { r, g, b, a } = color;
-    const alpha = opacity !== undefined ? opacity : (a !== undefined ? a : 1);
-    return `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${alpha})`;
-  }
-
-  private colorToTailwind(color: any): string {
-    const { r, g, b } = color;
-    
-    // Egyszerűsített színkonverzió
-    if (r > 0.9 && g > 0.9 && b > 0.9) return 'bg-white';
-    if (r < 0.1 && g < 0.1 && b < 0.1) return 'bg-black';
-    if (r > 0.8 && g < 0.3 && b < 0.3) return 'bg-red-500';
-    if (r < 0.3 && g > 0.8 && b < 0.3) return 'bg-green-500';
-    if (r < 0.3 && g < 0.3 && b > 0.8) return 'bg-blue-500';
-    
-    return 'bg-gray-500';
-  }
-
-  private pxToTailwindSpacing(px: number): string {
-    const spacing = Math.round(px / 4);
-    if (spacing <= 0) return '0';
-    if (spacing <= 96) return spacing.toString();
-    return `[${px}px]`;
-  }
-
-  private borderRadiusToTailwind(radius: number): string {
-    if (radius <= 2) return 'rounded-sm';
-    if (radius <= 4) return 'rounded';
-    if (radius <= 6) return 'rounded-md';
-    if (radius <= 8) return 'rounded-lg';
-    if (radius <= 12) return 'rounded-xl';
-    if (radius <= 16) return 'rounded-2xl';
-    return `rounded-[${radius}px]`;
-  }
-
-  private fontSizeToTailwind(fontSize: number): string {
-    if (fontSize <= 12) return 'text-xs';
-    if (fontSize <= 14) return 'text-sm';
-    if (fontSize <= 16) return 'text-base';
-    if (fontSize <= 18) return 'text-lg';
-    if (fontSize <= 20) return 'text-xl';
-    if (fontSize <= 24) return 'text-2xl';
-    if (fontSize <= 30) return 'text-3xl';
-    return `text-[${fontSize}px]`;
-  }
-
-  private getHtmlTag(node: FigmaNode): string {
-    switch (node.type) {
-      case 'TEXT': return this.isHeading(node) ? 'h2' : 'span';
-      case 'FRAME': return 'div';
-      case 'RECTANGLE': return this.isImage(node) ? 'img' : 'div';
-      case 'COMPONENT':
-      case 'INSTANCE': return 'div';
-      default: return 'div';
-    }
-  }
-
   private isImage(node: FigmaNode): boolean {
     return node.fills?.some(fill => fill.type === 'IMAGE') || false;
   }
@@ -515,7 +1971,7 @@ ${this.customCode.cssAdvanced}
     return name.includes('title') || 
            name.includes('heading') || 
            name.includes('header') ||
-           (node.style?.fontSize && node.style.fontSize > 20);
+           (node.style?.fontSize !== undefined && node.style.fontSize > 20);
   }
 
   private calculateContrastRatio(node: FigmaNode): number {
@@ -524,16 +1980,6 @@ ${this.customCode.cssAdvanced}
     return 4.5; // Placeholder
   }
 
-  private generateImports(node: FigmaNode): string {
-    const imports = ['import React from "react";'];
-    
-    if (this.options.typescript) {
-      // TypeScript típusok importálása szükség esetén
-    }
-    
-    return imports.join('\n');
-  }
-
   private generatePropsInterface(props: any[], componentName: string): string {
     if (props.length === 0) return '';
     
@@ -544,99 +1990,69 @@ ${this.customCode.cssAdvanced}
 `;
   }
 
-  private extractProps(node: FigmaNode): Array<{name: string, type: string, optional: boolean}> {
-    const props = [];
-    
-    if (node.type === 'TEXT' && node.characters) {
-      props.push({ name: 'children', type: 'React.ReactNode', optional: true });
-    }
-    
-    if (this.isImage(node)) {
-      props.push({ name: 'src', type: 'string', optional: false });
-      props.push({ name: 'alt', type: 'string', optional: false });
-    }
+  private propsInterfaceDeclaration(
+    name: string,
+    props: Array<{name: string, type: string, optional: boolean}>,
+    exported: boolean
+  ): ts.InterfaceDeclaration {
+    const f = ts.factory;
+    return f.createInterfaceDeclaration(
+      exported ? exportModifiers() : undefined,
+      name,
+      undefined,
+      undefined,
+      props.map(p => f.createPropertySignature(
+        undefined,
+        p.name,
+        p.optional ? f.createToken(ts.SyntaxKind.QuestionToken) : undefined,
+        typeNode(p.type),
+      )),
+    );
+  }
 
+  private extractProps(node: DesignNode): Array<{name: string, type: string, optional: boolean}> {
+    // A gyökér szövege React alatt children prop
+    const props = componentProps(node).map(p =>
+      p.name === 'text' ? { name: 'children', type: 'React.ReactNode', optional: true } : { ...p }
+    );
     props.push({ name: 'className', type: 'string', optional: true });
-    
     return props;
   }
 
-  private generateClassName(node: FigmaNode): string {
-    if (this.options.styling === 'tailwind') {
-      return this.generateTailwindClasses(node);
-    }
-    return node.name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-  }
-
-  private generateInlineStyles(node: FigmaNode): string {
-    if (this.options.styling === 'tailwind') return '';
-    
-    const styles = this.extractAllStyles(node);
-    const styleEntries = Object.entries(styles)
-      .map(([key, value]) => `${key}: "${value}"`)
-      .join(', ');
-    
-    return styleEntries ? `{{ ${styleEntries} }}` : '';
-  }
-
-  private generateAttributes(node: FigmaNode): string {
-    const attributes = [];
-    
-    if (this.isImage(node)) {
-      attributes.push('src={src}', 'alt={alt}');
-    }
-    
-    return attributes.length > 0 ? ' ' + attributes.join(' ') : '';
-  }
-
-  private generateHTML(node: FigmaNode, className: string, styles: string, children: string): string {
-    // HTML generálás implementációja
-    return `<!-- HTML implementation -->`;
-  }
-
-  private convertToCSSRules(styles: Record<string, any>, componentName: string): string {
-    const cssRules = Object.entries(styles)
-      .map(([property, value]) => `  ${this.camelToKebab(property)}: ${value};`)
-      .join('\n');
-    
-    return `.${componentName.toLowerCase()} {\n${cssRules}\n}`;
-  }
-
-  private generateCSSModules(cssRules: string): string {
-    return cssRules;
-  }
-
-  private generateStyledComponents(cssRules: string, componentName: string): string {
-    return `import styled from 'styled-components';
-
-export const Styled${componentName} = styled.div\`
-${cssRules.replace(/^\.[^{]+\{/, '').replace(/\}$/, '')}
-\`;`;
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
   }
 
-  private generatePlainCSS(cssRules: string, componentName: string): string {
-    return cssRules;
-  }
+  // styled-components alatt nincs külön stíluslap, a gyerekek stílusa inline marad
+  private generateInlineStyles(node: DesignNode): ts.ObjectLiteralExpression | undefined {
+    if (this.options.styling !== 'styled-components') return undefined;
 
-  private camelToKebab(str: string): string {
-    return str.replace(/([a-z0-9]|(?=[A-Z]))([A-Z])/g, '$1-$2').toLowerCase();
-  }
+    const entries = Object.entries(cssDeclarations(node));
+    if (entries.length === 0) return undefined;
 
-  private gradientToCSS(fill: any): string {
-    // Gradient konverzió implementációja
-    return 'linear-gradient(90deg, #000 0%, #fff 100%)';
+    return ts.factory.createObjectLiteralExpression(
+      entries.map(([key, value]) => ts.factory.createPropertyAssignment(key, literal(value)))
+    );
   }
 
-  private effectToCSS(effect: any): string {
-    if (effect.type === 'DROP_SHADOW') {
-      const { offset, radius, color } = effect;
-      const x = offset?.x || 0;
-      const y = offset?.y || 0;
-      const blur = radius || 0;
-      const colorCSS = color ? this.colorToCSS(color) : 'rgba(0,0,0,0.25)';
-      return `${x}px ${y}px ${blur}px ${colorCSS}`;
-    }
-    return '';
+  private generateStyledComponents(node: DesignNode, componentName: string): string {
+    const f = ts.factory;
+    const rule = cssRule('&', cssDeclarations(node));
+    const body = rule.slice(rule.indexOf('{') + 2, rule.lastIndexOf('}') - 1);
+
+    return printModule([
+      defaultImport('styled', 'styled-components', true),
+      exportConst(`Styled${componentName}`, f.createTaggedTemplateExpression(
+        f.createPropertyAccessExpression(f.createIdentifier('styled'), 'div'),
+        undefined,
+        templateLiteral(`\n${body}\n`),
+      )),
+    ]);
   }
 
   private generateResponsiveCSS(node: FigmaNode, breakpoint: string): string {
@@ -644,24 +2060,26 @@ ${cssRules.replace(/^\.[^{]+\{/, '').replace(/\}$/, '')}
     return `/* ${breakpoint} responsive styles */`;
   }
 
-  private generateTypeScript(node: FigmaNode, componentName: string): string {
-    const props = this.extractProps(node);
-    
-    return `export interface ${componentName}Props {
-  ${props.map(p => `${p.name}${p.optional ? '?' : ''}: ${p.type};`).join('\n  ')}
-}
+  private generateTypeScript(node: DesignNode, componentName: string): string {
+    const props = this.options.framework === 'vue' || this.options.framework === 'svelte'
+      ? this.extractTemplateProps(node)
+      : this.extractProps(node);
 
-export type ${componentName}Ref = HTMLDivElement;`;
+    return printModule([
+      this.propsInterfaceDeclaration(`${componentName}Props`, props, true),
+      ts.factory.createTypeAliasDeclaration(exportModifiers(), `${componentName}Ref`, undefined, typeNode('HTMLDivElement')),
+    ]);
   }
 
-  private generateMetadata(node: FigmaNode, generationTime: number): ComponentMetadata {
+  private generateMetadata(node: FigmaNode, design: DesignNode, generationTime: number): ComponentMetadata {
     return {
       figmaNodeId: node.id,
       componentType: this.detectComponentType(node),
       complexity: this.calculateComplexity(node),
       estimatedAccuracy: this.estimateAccuracy(node),
       generationTime,
-      dependencies: this.extractDependencies(node)
+      dependencies: this.extractDependencies(design),
+      fidelityNotes: fidelityNotes(design),
     };
   }
 
@@ -711,11 +2129,28 @@ export type ${componentName}Ref = HTMLDivElement;`;
     return Math.min(100, Math.max(70, accuracy));
   }
 
-  private extractDependencies(node: FigmaNode): string[] {
+  private extractDependencies(node: DesignNode): string[] {
+    if (this.options.framework === 'vue') return ['vue'];
+    if (this.options.framework === 'svelte') return ['svelte'];
+    if (this.options.framework === 'angular') return ['@angular/core'];
+    if (this.options.framework === 'react-native') {
+      return containsVector(node) ? ['react', 'react-native', 'react-native-svg'] : ['react', 'react-native'];
+    }
+    if (this.options.framework === 'flutter') return ['flutter'];
+    if (this.options.framework === 'swiftui') return ['SwiftUI'];
+    if (this.options.framework === 'web-components') return ['lit'];
+    if (this.options.framework === 'compose') {
+      const deps = ['androidx.compose.material3:material3'];
+      // Csak a gyökér kép töltődik AsyncImage-dzsel, a beágyazottak helyőrzők
+      if (node.role === 'image') deps.push('io.coil-kt:coil-compose');
+      return deps;
+    }
+    if (this.options.framework === 'html') return [];
+
     const deps = ['react'];
     
     if (this.options.typescript) deps.push('@types/react');
-    if (this.isImage(node)) deps.push('next/image');
+    if (node.role === 'image') deps.push('next/image');
     if (this.options.styling === 'styled-components') deps.push('styled-components');
     
     return deps;
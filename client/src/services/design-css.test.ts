@@ -0,0 +1,109 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDesignTree } from './design-ir';
+import { cssDeclarations, cssRule, tailwindClasses } from './design-css';
+import type { FigmaNode, Paint } from '../types/types';
+import { profileCard } from './__fixtures__/profile-card';
+
+const blue: Paint = { type: 'SOLID', color: { r: 0, g: 0, b: 1, a: 1 } };
+
+function node(overrides: Partial<FigmaNode>): FigmaNode {
+  return { id: '9:1', name: 'Layer', type: 'FRAME', absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 40 }, ...overrides };
+}
+
+const css = (overrides: Partial<FigmaNode>) => cssDeclarations(buildDesignTree(node(overrides)));
+const tailwind = (overrides: Partial<FigmaNode>) => tailwindClasses(buildDesignTree(node(overrides)));
+
+describe('cssDeclarations', () => {
+  test('layers gradients over the bottom solid fill with their blend modes', () => {
+    const declarations = cssDeclarations(buildDesignTree(profileCard));
+
+    assert.equal(
+      declarations.background,
+      'linear-gradient(150.26deg, rgba(51, 102, 255, 0.5) 0%, rgba(204, 51, 153, 0.5) 100%), rgba(255, 255, 255, 1)',
+    );
+    assert.equal(declarations.backgroundBlendMode, 'multiply');
+  });
+
+  test('draws a uniform solid stroke as a ring above the shadows', () => {
+    assert.equal(
+      cssDeclarations(buildDesignTree(profileCard)).boxShadow,
+      'inset 0 0 0 1px rgba(230, 230, 235, 1), 0px 4px 12px 2px rgba(0, 0, 0, 0.15), inset 0px 1px 4px rgba(255, 255, 255, 0.5)',
+    );
+    assert.equal(
+      css({ strokes: [blue], strokeWeight: 2, strokeAlign: 'CENTER' }).boxShadow,
+      'inset 0 0 0 1px rgba(0, 0, 255, 1), 0 0 0 1px rgba(0, 0, 255, 1)',
+    );
+  });
+
+  test('uses an offset outline for dashed strokes and borders for uneven sides', () => {
+    const dashed = css({ strokes: [blue], strokeWeight: 2, strokeDashes: [6, 4] });
+    assert.equal(dashed.outline, '2px dashed rgba(0, 0, 255, 1)');
+    assert.equal(dashed.outlineOffset, '-2px');
+    assert.equal(dashed.boxShadow, undefined);
+
+    const sides = css({ strokes: [blue], individualStrokeWeights: { top: 0, right: 0, bottom: 2, left: 0 } });
+    assert.equal(sides.boxSizing, 'border-box');
+    assert.equal(sides.borderWidth, '0px 0px 2px 0px');
+    assert.equal(sides.borderStyle, 'solid');
+  });
+
+  test('rounds ellipses and differing corners but never an svg root', () => {
+    assert.equal(css({ type: 'ELLIPSE' }).borderRadius, '50%');
+    assert.equal(css({ rectangleCornerRadii: [16, 16, 4, 4] }).borderRadius, '16px 16px 4px 4px');
+    assert.equal(css({ type: 'STAR', cornerRadius: 4 }).borderRadius, undefined);
+    assert.equal(css({ type: 'VECTOR', cornerRadius: 4 }).borderRadius, undefined);
+  });
+
+  test('turns text effects into text-shadow and halves blur radii', () => {
+    const text = css({
+      type: 'TEXT',
+      characters: 'Hi',
+      style: { fontFamily: 'My "Font"', fontSize: 16 },
+      effects: [
+        { type: 'DROP_SHADOW', radius: 2, color: { r: 0, g: 0, b: 0, a: 0.5 }, offset: { x: 1, y: 1 }, spread: 3 },
+        { type: 'INNER_SHADOW', radius: 2, offset: { x: 0, y: 1 } },
+        { type: 'LAYER_BLUR', radius: 6 },
+      ],
+    });
+
+    assert.equal(text.fontFamily, '"My \\"Font\\"", sans-serif');
+    assert.equal(text.textShadow, '1px 1px 2px rgba(0, 0, 0, 0.5)');
+    assert.equal(text.boxShadow, undefined);
+    assert.equal(text.filter, 'blur(3px)');
+  });
+
+  test('lets shadows behind the node follow its content', () => {
+    const declarations = css({
+      effects: [{ type: 'DROP_SHADOW', radius: 4, color: { r: 0, g: 0, b: 0, a: 1 }, offset: { x: 0, y: 2 }, showShadowBehindNode: true }],
+    });
+
+    assert.equal(declarations.filter, 'drop-shadow(0px 2px 4px rgba(0, 0, 0, 1))');
+    assert.equal(declarations.boxShadow, undefined);
+  });
+});
+
+describe('tailwindClasses', () => {
+  test('uses the radius scale for uniform corners and arbitrary values otherwise', () => {
+    assert.match(tailwind({ cornerRadius: 8 }), /\brounded-lg\b/);
+    assert.match(tailwind({ rectangleCornerRadii: [16, 16, 4, 4] }), /rounded-\[16px_16px_4px_4px\]/);
+    assert.match(tailwind({ type: 'ELLIPSE' }), /rounded-\[50%\]/);
+    assert.doesNotMatch(tailwind({ type: 'STAR', cornerRadius: 4 }), /rounded/);
+  });
+
+  test('keeps arbitrary values free of spaces', () => {
+    const classes = tailwindClasses(buildDesignTree(profileCard));
+
+    assert.match(classes, /bg-\[image:linear-gradient\(150\.26deg,rgba\(51,102,255,0\.5\)_0%,rgba\(204,51,153,0\.5\)_100%\)\] bg-blend-multiply bg-white/);
+    assert.ok(classes.split(' ').every(name => !name.includes(' ')));
+  });
+});
+
+describe('cssRule', () => {
+  test('writes kebab-case properties, vendor prefixes included', () => {
+    assert.equal(
+      cssRule('.title', { fontSize: '14px', WebkitTextStroke: '1px red' }),
+      '.title {\n  font-size: 14px;\n  -webkit-text-stroke: 1px red;\n}',
+    );
+  });
+});
@@ -0,0 +1,485 @@
+import { isVerticalDivider, type DesignBlendMode, type DesignColor, type DesignFill, type DesignGradient, type DesignNode, type DesignShadow, type DesignSpacing, type DesignStyle } from './design-ir';
+
+// Webes stílus back-endek a köztes reprezentációból: CSS deklarációk (sima CSS,
+// CSS modules, styled-components, scoped blokkok) és Tailwind osztályok.
+
+export type CSSDeclarations = Record<string, string | number>;
+
+export function colorToCSS(color: DesignColor): string {
+  const alpha = Math.round(color.a * 100) / 100;
+  return `rgba(${Math.round(color.r * 255)}, ${Math.round(color.g * 255)}, ${Math.round(color.b * 255)}, ${alpha})`;
+}
+
+// camelCase tulajdonságnevek, a szabályba írásnál alakulnak kebab-case-re
+export function cssDeclarations(node: DesignNode): CSSDeclarations {
+  const { style } = node;
+  const declarations: CSSDeclarations = {};
+
+  // Méret
+  if (style.width !== undefined && style.height !== undefined) {
+    declarations.width = `${style.width}px`;
+    declarations.height = `${style.height}px`;
+  }
+
+  // Flexbox layout
+  if (style.layout) {
+    const flexValue = { start: 'flex-start', center: 'center', end: 'flex-end', 'space-between': 'space-between', baseline: 'baseline' };
+    declarations.display = 'flex';
+    declarations.flexDirection = style.layout.direction;
+    if (style.layout.gap) declarations.gap = `${style.layout.gap}px`;
+    if (style.layout.justify) declarations.justifyContent = flexValue[style.layout.justify];
+    if (style.layout.align) declarations.alignItems = flexValue[style.layout.align];
+  }
+
+  if (style.padding) {
+    const { top, right, bottom, left } = style.padding;
+    declarations.padding = `${top}px ${right}px ${bottom}px ${left}px`;
+  }
+
+  // Háttér az összes látható kitöltésből, a CSS sorrendjében felülről lefelé
+  const background = backgroundLayers(node);
+  if (background.layers.length > 0) {
+    declarations.background = [
+      ...background.layers.map(layer => layer.image),
+      ...(background.color ? [colorToCSS(background.color)] : []),
+    ].join(', ');
+    if (background.layers.some(layer => layer.blendMode)) {
+      declarations.backgroundBlendMode = background.layers.map(layer => layer.blendMode || 'normal').join(', ');
+    }
+  } else if (background.color) {
+    declarations.backgroundColor = colorToCSS(background.color);
+  }
+
+  const radius = borderRadius(node);
+  if (radius) {
+    declarations.borderRadius = radius;
+  }
+
+  // A hr böngészős margója és kerete helyett csak a vonal
+  if (node.role === 'divider') {
+    declarations.margin = '0';
+    declarations.border = 'none';
+  }
+
+  // Vonal: az egységes folytonos a box-shadow-ba kerül (lásd effectValues), az egységes
+  // szaggatott outline, az eltérő oldalvastagságú oldalankénti border, elválasztónál
+  // egyetlen oldal
+  const stroke = strokeValues(node);
+  if (stroke.line) {
+    declarations[stroke.line.side === 'top' ? 'borderTop' : 'borderLeft'] =
+      `${stroke.line.width}px ${stroke.line.style} ${stroke.line.color}`;
+  }
+  if (stroke.border) {
+    const { top, right, bottom, left } = stroke.border.widths;
+    declarations.boxSizing = 'border-box';
+    declarations.borderWidth = `${top}px ${right}px ${bottom}px ${left}px`;
+    declarations.borderStyle = stroke.border.style;
+    declarations.borderColor = stroke.border.color;
+  }
+  if (stroke.outline) {
+    declarations.outline = `${stroke.outline.width}px ${stroke.outline.style} ${stroke.outline.color}`;
+    if (stroke.outline.offset) declarations.outlineOffset = `${stroke.outline.offset}px`;
+  }
+  if (stroke.textStroke) {
+    declarations.WebkitTextStroke = stroke.textStroke;
+  }
+
+  // Tipográfia
+  if (style.text) {
+    declarations.fontFamily = `${cssString(style.text.fontFamily)}, sans-serif`;
+    declarations.fontSize = `${style.text.fontSize}px`;
+    if (style.text.fontWeight) declarations.fontWeight = style.text.fontWeight;
+    if (style.text.lineHeight !== undefined) declarations.lineHeight = `${style.text.lineHeight}px`;
+    if (style.text.letterSpacing !== undefined) declarations.letterSpacing = `${style.text.letterSpacing}px`;
+  }
+  if (style.color) {
+    declarations.color = colorToCSS(style.color);
+  }
+
+  if (style.opacity !== undefined) {
+    declarations.opacity = style.opacity;
+  }
+
+  if (style.blendMode) {
+    declarations.mixBlendMode = style.blendMode;
+  }
+
+  const effects = effectValues(node);
+  if (effects.textShadow) declarations.textShadow = effects.textShadow;
+  if (effects.boxShadow) declarations.boxShadow = effects.boxShadow;
+  if (effects.filter) declarations.filter = effects.filter;
+  if (effects.backdropFilter) declarations.backdropFilter = effects.backdropFilter;
+
+  return declarations;
+}
+
+export function cssRule(selector: string, declarations: CSSDeclarations): string {
+  const body = Object.entries(declarations)
+    .map(([property, value]) => `  ${camelToKebab(property)}: ${value};`)
+    .join('\n');
+  return `${selector} {\n${body}\n}`;
+}
+
+export function tailwindClasses(node: DesignNode): string {
+  const { style } = node;
+  const classes: string[] = [];
+
+  // Layout
+  if (style.layout) {
+    classes.push('flex', style.layout.direction === 'row' ? 'flex-row' : 'flex-col');
+    if (style.layout.gap) classes.push(`gap-${tailwindSpacing(style.layout.gap)}`);
+    if (style.layout.justify) {
+      classes.push({ start: 'justify-start', center: 'justify-center', end: 'justify-end', 'space-between': 'justify-between' }[style.layout.justify]);
+    }
+    if (style.layout.align) {
+      classes.push({ start: 'items-start', center: 'items-center', end: 'items-end', baseline: 'items-baseline' }[style.layout.align]);
+    }
+  }
+
+  // Padding
+  if (style.padding) {
+    const { top, right, bottom, left } = style.padding;
+    if (left) classes.push(`pl-${tailwindSpacing(left)}`);
+    if (right) classes.push(`pr-${tailwindSpacing(right)}`);
+    if (top) classes.push(`pt-${tailwindSpacing(top)}`);
+    if (bottom) classes.push(`pb-${tailwindSpacing(bottom)}`);
+  }
+
+  // Méret
+  if (style.width !== undefined && style.height !== undefined) {
+    classes.push(`w-[${style.width}px]`, `h-[${style.height}px]`);
+  }
+
+  // Háttér: a rétegek egy tetszőleges értékű bg-[image:...] osztályban, alattuk a háttérszín
+  const background = backgroundLayers(node);
+  if (background.layers.length > 0) {
+    classes.push(`bg-[image:${tailwindArbitrary(background.layers.map(layer => layer.image).join(', '))}]`);
+    const blendModes = background.layers.map(layer => layer.blendMode || 'normal');
+    if (blendModes.length === 1 && background.layers[0].blendMode) {
+      classes.push(`bg-blend-${blendModes[0]}`);
+    } else if (blendModes.length > 1 && background.layers.some(layer => layer.blendMode)) {
+      classes.push(`[background-blend-mode:${blendModes.join(',')}]`);
+    }
+  }
+  if (background.color) {
+    classes.push(tailwindBackground(background.color));
+  }
+
+  // Egységes sugárnál a skála osztálya, ellipszisnél és eltérő sarkoknál tetszőleges érték
+  const radius = borderRadius(node);
+  if (radius && style.cornerRadius) {
+    classes.push(tailwindRadius(style.cornerRadius));
+  } else if (radius) {
+    classes.push(`rounded-[${tailwindArbitrary(radius)}]`);
+  }
+
+  if (node.role === 'divider') {
+    classes.push('m-0', 'border-0');
+  }
+
+  // Vonal; az egységes folytonos a shadow-[...] osztályba kerül az effektekkel
+  const stroke = strokeValues(node);
+  if (stroke.line) {
+    const { side, width, style: lineStyle, color } = stroke.line;
+    classes.push(`border-${side === 'top' ? 't' : 'l'}-[${formatNumber(width)}px]`, `border-${lineStyle}`, `border-[${tailwindArbitrary(color)}]`);
+  }
+  if (stroke.border) {
+    const { top, right, bottom, left } = stroke.border.widths;
+    classes.push('box-border');
+    if (top) classes.push(`border-t-[${formatNumber(top)}px]`);
+    if (right) classes.push(`border-r-[${formatNumber(right)}px]`);
+    if (bottom) classes.push(`border-b-[${formatNumber(bottom)}px]`);
+    if (left) classes.push(`border-l-[${formatNumber(left)}px]`);
+    classes.push(`border-${stroke.border.style}`, `border-[${tailwindArbitrary(stroke.border.color)}]`);
+  }
+  if (stroke.outline) {
+    const { width, style: outlineStyle, color, offset } = stroke.outline;
+    classes.push(`outline-${outlineStyle}`, `outline-[${formatNumber(width)}px]`, `outline-[${tailwindArbitrary(color)}]`);
+    if (offset) classes.push(`outline-offset-[${formatNumber(offset)}px]`);
+  }
+  if (stroke.textStroke) {
+    classes.push(`[-webkit-text-stroke:${tailwindArbitrary(stroke.textStroke)}]`);
+  }
+
+  // Tipográfia
+  if (style.text?.fontSize) {
+    classes.push(tailwindFontSize(style.text.fontSize));
+  }
+
+  if (style.blendMode) {
+    classes.push(`mix-blend-${style.blendMode}`);
+  }
+
+  // Effektek; a szövegárnyéknak nincs Tailwind osztálya, tetszőleges tulajdonságként kerül be
+  const effects = effectValues(node);
+  if (effects.textShadow) classes.push(`[text-shadow:${tailwindArbitrary(effects.textShadow)}]`);
+  if (effects.boxShadow) classes.push(`shadow-[${tailwindArbitrary(effects.boxShadow)}]`);
+  effects.dropShadows.forEach(shadow => classes.push(`drop-shadow-[${tailwindArbitrary(shadow)}]`));
+  if (style.blur) classes.push(`blur-[${formatNumber(style.blur / 2)}px]`);
+  if (style.backgroundBlur) classes.push(`backdrop-blur-[${formatNumber(style.backgroundBlur / 2)}px]`);
+
+  return classes.join(' ');
+}
+
+interface BackgroundLayer {
+  image: string;
+  blendMode?: DesignBlendMode;
+}
+
+// A CSS háttérrétegei felülről lefelé. Egyszínű kitöltés csak legalul lehet háttérszín,
+// feljebb egyszínű gradiensként kerül a rétegek közé. Kép node-nál a legfelső kép az
+// img tartalma, az alatta lévő kitöltések a kép átlátszó részein látszanak.
+function backgroundLayers(node: DesignNode): { layers: BackgroundLayer[]; color?: DesignColor } {
+  // A vektor kitöltését az SVG rajzolja
+  if (node.role === 'vector') return { layers: [] };
+  const fills = node.role === 'image' ? node.style.fills.filter(fill => fill.type !== 'image') : node.style.fills;
+  const [bottom, ...rest] = fills;
+  const color = bottom?.type === 'solid' ? bottom.color : undefined;
+
+  const layers = (color ? rest : fills)
+    .map(fill => ({ image: layerImage(fill, node), ...(fill.blendMode && { blendMode: fill.blendMode }) }))
+    .reverse();
+  return { layers, ...(color && { color }) };
+}
+
+// A letakart kép forrását a kódgenerátor nem ismeri; a --<osztály>-image egyedi
+// tulajdonsággal adható meg, addig a réteg üres
+function layerImage(fill: DesignFill, node: DesignNode): string {
+  switch (fill.type) {
+    case 'solid': {
+      const color = colorToCSS(fill.color);
+      return `linear-gradient(${color}, ${color})`;
+    }
+    case 'gradient':
+      return gradientToCSS(fill, node.style);
+    case 'image':
+      return `var(--${node.className}-image, none)`;
+  }
+}
+
+interface StrokeValues {
+  // Folytonos vonal box-shadow gyűrűként, felülről lefelé
+  shadows: string[];
+  outline?: { width: number; style: string; color: string; offset: number };
+  border?: { widths: DesignSpacing; style: string; color: string };
+  // Elválasztó vonal a hr egyik oldalán
+  line?: { side: 'top' | 'left'; width: number; style: string; color: string };
+  textStroke?: string;
+}
+
+// A teljes ellipszis a doboz felével, az eltérő sarkok a CSS sorrendjében (bal felső,
+// jobb felső, jobb alsó, bal alsó) kerekítenek. Az <svg> gyökéren a border-radius nem
+// látszana: ott a rajz maga kerekít, vagy a fidelityNotes jelzi, hogy nem tud.
+function borderRadius(node: DesignNode): string | undefined {
+  const { style } = node;
+  if (node.role === 'vector') return undefined;
+  if (node.type === 'ELLIPSE') return '50%';
+  if (style.cornerRadii) {
+    const { topLeft, topRight, bottomRight, bottomLeft } = style.cornerRadii;
+    return `${topLeft}px ${topRight}px ${bottomRight}px ${bottomLeft}px`;
+  }
+  return style.cornerRadius ? `${style.cornerRadius}px` : undefined;
+}
+
+// A Figma vonala nem része a doboz méretének, ezért az egységes folytonos vonal
+// box-shadow kiterjesztéssel rajzolódik: belső igazításnál inset, külsőnél kifelé,
+// középre igazításnál fele-fele, így több egymásra rajzolt szín is megmarad. Egységes
+// szaggatott vonalnál outline, amelynek eltolása adja az igazítást. Eltérő
+// oldalvastagságnál oldalanként border-box-os border, ami mindig belül rajzol, és
+// egyszínű: a legfelső szín marad. Pontozott, ha a szakasz nem hosszabb a vastagságnál.
+// Szövegnél -webkit-text-stroke, elválasztónál a hr felső vagy bal szegélye, vektornál
+// az SVG rajzolja a vonalat.
+function strokeValues(node: DesignNode): StrokeValues {
+  const { stroke } = node.style;
+  if (!stroke || node.role === 'vector') return { shadows: [] };
+
+  const topmost = colorToCSS(stroke.colors[stroke.colors.length - 1]);
+  const { top, right, bottom, left } = stroke.weights;
+  const width = Math.max(top, right, bottom, left);
+
+  if (node.text !== undefined) {
+    return { shadows: [], textStroke: `${formatNumber(width)}px ${topmost}` };
+  }
+
+  const dashStyle = stroke.dashes.length === 0 ? 'solid' : stroke.dashes[0] <= width ? 'dotted' : 'dashed';
+  if (node.role === 'divider') {
+    return { shadows: [], line: { side: isVerticalDivider(node) ? 'left' : 'top', width, style: dashStyle, color: topmost } };
+  }
+
+  if (!(top === right && right === bottom && bottom === left)) {
+    return { shadows: [], border: { widths: stroke.weights, style: dashStyle, color: topmost } };
+  }
+
+  if (stroke.dashes.length > 0) {
+    const offset = { inside: -width, center: -width / 2, outside: 0 }[stroke.align];
+    return { shadows: [], outline: { width, style: dashStyle, color: topmost, offset } };
+  }
+
+  const ring = (color: string, inset: boolean, scale: number) =>
+    `${inset ? 'inset ' : ''}0 0 0 ${formatNumber(width * scale)}px ${color}`;
+  const shadows = [...stroke.colors].reverse().flatMap(strokeColor => {
+    const color = colorToCSS(strokeColor);
+    switch (stroke.align) {
+      case 'inside': return [ring(color, true, 1)];
+      case 'outside': return [ring(color, false, 1)];
+      case 'center': return [ring(color, true, 0.5), ring(color, false, 0.5)];
+    }
+  });
+  return { shadows };
+}
+
+interface EffectValues {
+  textShadow?: string;
+  boxShadow?: string;
+  // drop-shadow() argumentumok, külön is kellenek a Tailwind osztályokhoz
+  dropShadows: string[];
+  filter?: string;
+  backdropFilter?: string;
+}
+
+// Szövegnél az árnyék text-shadow, belső árnyék és kiterjesztés nélkül, mert a CSS ezt
+// nem ismeri. A vonal box-shadow gyűrűi az árnyékok előtt állnak, így fölöttük
+// rajzolódnak. A box-shadow csak a doboz körül rajzol, ami a Figma alapértelmezése; ha
+// az árnyék az áttetsző kitöltés alatt is látszik (showShadowBehindNode), filter:
+// drop-shadow() követi a tartalmat, de ez nem terjeszthető ki, így a spread ott box-shadow
+// marad. A Figma elmosási sugara a CSS blur() szórásának kétszerese.
+function effectValues(node: DesignNode): EffectValues {
+  const { style } = node;
+  const values: EffectValues = { dropShadows: [] };
+
+  if (node.text !== undefined) {
+    const shadows = style.shadows.filter(shadow => !shadow.inset);
+    if (shadows.length > 0) values.textShadow = shadows.map(shadow => shadowToCSS(shadow, false)).join(', ');
+  } else {
+    const followsContent = (shadow: DesignShadow) => shadow.behindNode && !shadow.spread;
+    const boxShadows = [
+      ...strokeValues(node).shadows,
+      ...style.shadows.filter(shadow => !followsContent(shadow)).map(shadow => shadowToCSS(shadow, true)),
+    ];
+    if (boxShadows.length > 0) values.boxShadow = boxShadows.join(', ');
+    values.dropShadows = style.shadows.filter(followsContent).map(shadow => shadowToCSS(shadow, false));
+  }
+
+  const filters = [
+    ...values.dropShadows.map(shadow => `drop-shadow(${shadow})`),
+    ...(style.blur ? [`blur(${formatNumber(style.blur / 2)}px)`] : []),
+  ];
+  if (filters.length > 0) values.filter = filters.join(' ');
+  if (style.backgroundBlur) values.backdropFilter = `blur(${formatNumber(style.backgroundBlur / 2)}px)`;
+
+  return values;
+}
+
+function shadowToCSS(shadow: DesignShadow, boxShadow: boolean): string {
+  const spread = boxShadow && shadow.spread ? ` ${shadow.spread}px` : '';
+  const inset = boxShadow && shadow.inset ? 'inset ' : '';
+  return `${inset}${shadow.x}px ${shadow.y}px ${shadow.blur}px${spread} ${colorToCSS(shadow.color)}`;
+}
+
+// A fogópontok a node dobozára normalizáltak; a szögekhez és sugarakhoz pixeltérben
+// számolunk, méret nélkül egységnégyzetben
+function gradientToCSS(gradient: DesignGradient, style: DesignStyle): string {
+  const width = style.width || 1;
+  const height = style.height || 1;
+  const [start, end, side] = gradient.handles.map(handle => ({ x: handle.x * width, y: handle.y * height }));
+  const stops = (map: (position: number) => number) => gradient.stops
+    .map(stop => `${colorToCSS(stop.color)} ${formatNumber(map(stop.position) * 100)}%`)
+    .join(', ');
+
+  if (gradient.kind === 'linear') {
+    // A CSS gradiens vonala a doboz közepén át halad, hossza a szögtől függ;
+    // a Figma kezdő- és végpontját erre a vonalra vetítjük
+    const angle = Math.atan2(end.x - start.x, start.y - end.y);
+    const direction = { x: Math.sin(angle), y: -Math.cos(angle) };
+    const length = Math.abs(width * direction.x) + Math.abs(height * direction.y);
+    const project = (point: { x: number; y: number }) =>
+      ((point.x - width / 2) * direction.x + (point.y - height / 2) * direction.y) / length + 0.5;
+    const from = project(start);
+    const to = project(end);
+    return `linear-gradient(${formatNumber(toDegrees(angle))}deg, ${stops(position => from + position * (to - from))})`;
+  }
+
+  const center = `${formatNumber(gradient.handles[0].x * 100)}% ${formatNumber(gradient.handles[0].y * 100)}%`;
+
+  if (gradient.kind === 'angular') {
+    // A kúpos gradiens a végpont irányából indul, az óramutató járásával egyezően
+    const from = Math.atan2(end.x - start.x, start.y - end.y);
+    return `conic-gradient(from ${formatNumber(toDegrees(from))}deg at ${center}, ${stops(position => position)})`;
+  }
+
+  // Radiális ellipszis a két tengely hosszával; a CSS ellipszis nem forgatható, ezért a
+  // függőlegesebb tengely adja a függőleges sugarat. A rombusz (diamond) gradienst
+  // ugyanezzel az ellipszissel közelítjük: a csúcsai egyeznek, az élei íveltek lesznek
+  const axis = { x: end.x - start.x, y: end.y - start.y };
+  const first = Math.hypot(axis.x, axis.y);
+  const second = Math.hypot(side.x - start.x, side.y - start.y);
+  const [radiusX, radiusY] = Math.abs(axis.y) > Math.abs(axis.x) ? [second, first] : [first, second];
+  const size = `${formatNumber(radiusX / width * 100)}% ${formatNumber(radiusY / height * 100)}%`;
+  return `radial-gradient(${size} at ${center}, ${stops(position => position)})`;
+}
+
+// Fok 0–360 tartományban, a CSS szögkonvenciója szerint (0deg felfelé, óramutató irányában)
+function toDegrees(radians: number): number {
+  return ((radians * 180 / Math.PI) % 360 + 360) % 360;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+// Idézőjeles CSS string; a betűcsalád neve a tervből jön, bármit tartalmazhat
+function cssString(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\a ')}"`;
+}
+
+function camelToKebab(str: string): string {
+  return str.replace(/([a-z0-9]|(?=[A-Z]))([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+function tailwindSpacing(px: number): string {
+  const spacing = Math.round(px / 4);
+  if (spacing <= 0) return '0';
+  if (spacing <= 96) return spacing.toString();
+  return `[${px}px]`;
+}
+
+function tailwindBackground(color: DesignColor): string {
+  const { r, g, b, a } = color;
+  // Áttetsző színnél az átlátszóság módosítóként: bg-black/50
+  const alpha = a < 1 ? `/${Math.round(a * 100)}` : '';
+
+  // Egyszerűsített színkonverzió
+  if (r > 0.9 && g > 0.9 && b > 0.9) return `bg-white${alpha}`;
+  if (r < 0.1 && g < 0.1 && b < 0.1) return `bg-black${alpha}`;
+  if (r > 0.8 && g < 0.3 && b < 0.3) return `bg-red-500${alpha}`;
+  if (r < 0.3 && g > 0.8 && b < 0.3) return `bg-green-500${alpha}`;
+  if (r < 0.3 && g < 0.3 && b > 0.8) return `bg-blue-500${alpha}`;
+
+  return `bg-gray-500${alpha}`;
+}
+
+// Tetszőleges értékben a szóköz aláhúzás, a Tailwind visszaalakítja
+function tailwindArbitrary(value: string): string {
+  return value.replace(/,\s+/g, ',').replace(/\s+/g, '_');
+}
+
+function tailwindRadius(radius: number): string {
+  if (radius <= 2) return 'rounded-sm';
+  if (radius <= 4) return 'rounded';
+  if (radius <= 6) return 'rounded-md';
+  if (radius <= 8) return 'rounded-lg';
+  if (radius <= 12) return 'rounded-xl';
+  if (radius <= 16) return 'rounded-2xl';
+  return `rounded-[${radius}px]`;
+}
+
+function tailwindFontSize(fontSize: number): string {
+  if (fontSize <= 12) return 'text-xs';
+  if (fontSize <= 14) return 'text-sm';
+  if (fontSize <= 16) return 'text-base';
+  if (fontSize <= 18) return 'text-lg';
+  if (fontSize <= 20) return 'text-xl';
+  if (fontSize <= 24) return 'text-2xl';
+  if (fontSize <= 30) return 'text-3xl';
+  return `text-[${fontSize}px]`;
+}
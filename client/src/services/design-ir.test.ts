@@ -0,0 +1,74 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDesignTree, fidelityNotes } from './design-ir';
+import type { FigmaNode } from '../types/types';
+import { profileCard } from './__fixtures__/profile-card';
+
+function node(overrides: Partial<FigmaNode>): FigmaNode {
+  return { id: '9:1', name: 'Layer', type: 'FRAME', absoluteBoundingBox: { x: 0, y: 0, width: 40, height: 40 }, ...overrides };
+}
+
+describe('buildDesignTree', () => {
+  test('resolves roles and tags from type, fills and name', () => {
+    const tree = buildDesignTree(profileCard);
+    const byName = Object.fromEntries(tree.children.map(child => [child.name, child]));
+
+    assert.equal(tree.role, 'article');
+    assert.deepEqual([byName.Avatar.role, byName.Avatar.tag], ['image', 'img']);
+    assert.deepEqual([byName.Title.role, byName.Title.tag], ['heading', 'h2']);
+    assert.deepEqual([byName.Bio.role, byName.Bio.tag], ['paragraph', 'p']);
+    assert.deepEqual([byName.Divider.role, byName.Divider.tag], ['divider', 'hr']);
+    assert.deepEqual([byName['Follow Button'].role, byName['Follow Button'].interactive], ['button', true]);
+  });
+
+  test('matches interactive names on word boundaries only', () => {
+    const linkedin = buildDesignTree(node({ name: 'Linkedin' }));
+    const link = buildDesignTree(node({ name: 'Footer link' }));
+
+    assert.deepEqual([linkedin.role, linkedin.interactive], ['container', false]);
+    assert.deepEqual([link.role, link.interactive], ['link', true]);
+  });
+
+  test('numbers repeated class names in preorder', () => {
+    const rows = buildDesignTree(profileCard).children.find(child => child.name === 'Links')!;
+
+    assert.deepEqual(rows.children.map(row => row.children[0].className), ['label-2', 'label-3', 'label-4']);
+    assert.equal(buildDesignTree(node({ name: '2 Columns' })).className, 'node-2-columns');
+  });
+
+  test('draws only arcs and rings of ellipses as vectors', () => {
+    const circle = buildDesignTree(node({ type: 'ELLIPSE', arcData: { startingAngle: 0, endingAngle: Math.PI * 2, innerRadius: 0 } }));
+    const ring = buildDesignTree(node({ type: 'ELLIPSE', arcData: { startingAngle: 0, endingAngle: Math.PI * 2, innerRadius: 0.5 } }));
+
+    assert.equal(circle.role, 'container');
+    assert.equal(ring.role, 'vector');
+    assert.deepEqual(ring.asset, {
+      kind: 'vector',
+      fillGeometry: [],
+      strokeGeometry: [],
+      shape: { kind: 'arc', startAngle: 0, sweep: Math.PI * 2, innerRadius: 0.5 },
+    });
+  });
+
+  test('keeps per-corner radii only when the corners differ', () => {
+    assert.deepEqual(buildDesignTree(node({ rectangleCornerRadii: [4, 4, 4, 4] })).style.cornerRadius, 4);
+    assert.deepEqual(
+      buildDesignTree(node({ rectangleCornerRadii: [16, 16, 4, 4] })).style.cornerRadii,
+      { topLeft: 16, topRight: 16, bottomRight: 4, bottomLeft: 4 },
+    );
+  });
+});
+
+describe('fidelityNotes', () => {
+  test('flags corner smoothing and rounded polygon corners', () => {
+    const star = { type: 'STAR' as const, name: 'Star', cornerRadius: 2 };
+    const smoothed = buildDesignTree(node({ name: 'Card', cornerRadius: 8, cornerSmoothing: 0.6 }));
+    const withoutGeometry = buildDesignTree(node(star));
+    const withGeometry = buildDesignTree(node({ ...star, fillGeometry: [{ path: 'M0 0L40 0L20 40Z', windingRule: 'NONZERO' }] }));
+
+    assert.match(fidelityNotes(smoothed)[0], /^Card: a 60%-os sarokgörbület/);
+    assert.match(fidelityNotes(withoutGeometry)[0], /geometria \(geometry=paths\) nélkül/);
+    assert.match(fidelityNotes(withGeometry)[0], /csak a Figma geometriájából jöhet/);
+    assert.deepEqual(fidelityNotes(buildDesignTree(node({ type: 'STAR' }))), []);
+  });
+});
@@ -0,0 +1,634 @@
+import type { Color, FigmaNode, NodeType, Paint, Vector, VectorPath } from '../types/types';
+
+// Keretrendszer-független köztes reprezentáció a Figma node-fa és a kódgenerátorok
+// között. A szerepek, a HTML elemek, az egyedi osztálynevek, a feloldott stílusok
+// és az assetek egyszer, itt dőlnek el; minden generátor és stílus back-end ebből
+// dolgozik, így egy javítás vagy új cél csak egy helyen kell.
+
+export type DesignRole =
+  | 'container'
+  | 'text'
+  | 'paragraph'
+  | 'heading'
+  | 'image'
+  | 'vector'
+  | 'divider'
+  | 'button'
+  | 'link'
+  | 'navigation'
+  | 'header'
+  | 'footer'
+  | 'aside'
+  | 'section'
+  | 'article';
+
+// 0–1 csatornák, a festék átlátszósága már beleszorozva
+export interface DesignColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface DesignGradientStop {
+  // 0–1 a gradiens tengelye mentén
+  position: number;
+  color: DesignColor;
+}
+
+// CSS <blend-mode> érték; a normál keverés nincs jelölve
+export type DesignBlendMode =
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+export interface DesignGradient {
+  type: 'gradient';
+  kind: 'linear' | 'radial' | 'angular' | 'diamond';
+  // Kezdő- (vagy közép-), vég- és szélességpont a node 0–1-re normalizált dobozában
+  handles: [Vector, Vector, Vector];
+  stops: DesignGradientStop[];
+  blendMode?: DesignBlendMode;
+}
+
+export type DesignFill =
+  | { type: 'solid'; color: DesignColor; blendMode?: DesignBlendMode }
+  | DesignGradient
+  | { type: 'image'; imageRef?: string; blendMode?: DesignBlendMode };
+
+export interface DesignShadow {
+  x: number;
+  y: number;
+  blur: number;
+  spread: number;
+  color: DesignColor;
+  // Belső árnyék (INNER_SHADOW)
+  inset: boolean;
+  // A réteg áttetsző részein át is látszik (showShadowBehindNode)
+  behindNode: boolean;
+}
+
+export interface DesignLayout {
+  direction: 'row' | 'column';
+  gap: number;
+  justify?: 'start' | 'center' | 'end' | 'space-between';
+  align?: 'start' | 'center' | 'end' | 'baseline';
+}
+
+export interface DesignSpacing {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface DesignCorners {
+  topLeft: number;
+  topRight: number;
+  bottomRight: number;
+  bottomLeft: number;
+}
+
+export interface DesignStroke {
+  // Látható egyszínű vonalak alulról felfelé; ugyanarra a sávra rajzolódnak
+  colors: DesignColor[];
+  // Oldalankénti vastagság, egységes vonalnál mind egyenlő
+  weights: DesignSpacing;
+  // A sáv helye a node határához képest
+  align: 'inside' | 'outside' | 'center';
+  // Váltakozó vonal- és hézaghosszak; üres tömb: folytonos vonal
+  dashes: number[];
+  cap: 'butt' | 'round' | 'square';
+  join: 'miter' | 'bevel' | 'round';
+}
+
+export interface DesignTextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontWeight?: number;
+  lineHeight?: number;
+  letterSpacing?: number;
+}
+
+export interface DesignStyle {
+  width?: number;
+  height?: number;
+  // Eltolás a szülőhöz képest, ha a szülő nem auto-layout (abszolút elhelyezés)
+  offset?: { x: number; y: number };
+  layout?: DesignLayout;
+  padding?: DesignSpacing;
+  // Látható kitöltések a Figma sorrendjében, alulról felfelé; szövegnél ezek a betűszínt
+  // adják, nem a hátteret
+  fills: DesignFill[];
+  // Egységes lekerekítés; eltérő sarkoknál csak a cornerRadii van megadva
+  cornerRadius?: number;
+  cornerRadii?: DesignCorners;
+  // A Figma folytonos sarokgörbülete (0–1); egyik cél sem ismeri, csak jelezzük
+  cornerSmoothing?: number;
+  stroke?: DesignStroke;
+  opacity?: number;
+  // A réteg keverése a mögötte lévő tartalommal
+  blendMode?: DesignBlendMode;
+  // Vetett és belső árnyékok a Figma sorrendjében
+  shadows: DesignShadow[];
+  // Réteg- és háttérelmosás sugara (LAYER_BLUR, BACKGROUND_BLUR)
+  blur?: number;
+  backgroundBlur?: number;
+  // Szöveg node-ok betűszíne és tipográfiája
+  color?: DesignColor;
+  text?: DesignTextStyle;
+}
+
+export type DesignAsset =
+  | { kind: 'image'; imageRef?: string }
+  | { kind: 'vector'; fillGeometry: VectorPath[]; strokeGeometry: VectorPath[]; shape?: DesignShape };
+
+// Geometria nélkül is rajzolható alakzatok. Az ív szögei radiánban, az óramutató
+// irányában; a sokszög csúcsai a node dobozára normalizáltak (0–1).
+export type DesignShape =
+  | { kind: 'arc'; startAngle: number; sweep: number; innerRadius: number }
+  | { kind: 'polygon'; points: Vector[] };
+
+export interface DesignNode {
+  // A forrás Figma node azonosítója
+  id: string;
+  name: string;
+  type: NodeType;
+  role: DesignRole;
+  // Webes célok HTML eleme
+  tag: string;
+  // A fán belül egyedi osztálynév; azonos nevű rétegeknél sorszámmal
+  className: string;
+  // Kattintható réteg (gomb, link), a keretrendszerek eseményt köthetnek rá
+  interactive: boolean;
+  // Csak szöveg node-oknál
+  text?: string;
+  asset?: DesignAsset;
+  style: DesignStyle;
+  children: DesignNode[];
+}
+
+export interface DesignProp {
+  name: 'text' | 'src' | 'alt';
+  type: 'string';
+  optional: boolean;
+}
+
+const VECTOR_TYPES: string[] = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'LINE', 'ELLIPSE', 'REGULAR_POLYGON'];
+
+const ROLE_TAGS: Record<DesignRole, string> = {
+  container: 'div',
+  text: 'span',
+  paragraph: 'p',
+  heading: 'h3',
+  image: 'img',
+  vector: 'svg',
+  divider: 'hr',
+  button: 'button',
+  link: 'a',
+  navigation: 'nav',
+  header: 'header',
+  footer: 'footer',
+  aside: 'aside',
+  section: 'section',
+  article: 'article',
+};
+
+const GRADIENT_KINDS: Record<string, DesignGradient['kind']> = {
+  GRADIENT_LINEAR: 'linear',
+  GRADIENT_RADIAL: 'radial',
+  GRADIENT_ANGULAR: 'angular',
+  GRADIENT_DIAMOND: 'diamond',
+};
+
+// A Figma alapértelmezése: balról jobbra, illetve a középpontból a jobb szélig
+const DEFAULT_HANDLES: Record<DesignGradient['kind'], [Vector, Vector, Vector]> = {
+  linear: [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 1 }],
+  radial: [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }],
+  angular: [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }],
+  diamond: [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }],
+};
+
+// A lineáris égetés és kitakarás CSS-ben nem létezik, a színes változatukkal közelítjük
+const BLEND_MODES: Record<string, DesignBlendMode> = {
+  MULTIPLY: 'multiply',
+  SCREEN: 'screen',
+  OVERLAY: 'overlay',
+  DARKEN: 'darken',
+  LIGHTEN: 'lighten',
+  COLOR_DODGE: 'color-dodge',
+  LINEAR_DODGE: 'color-dodge',
+  COLOR_BURN: 'color-burn',
+  LINEAR_BURN: 'color-burn',
+  HARD_LIGHT: 'hard-light',
+  SOFT_LIGHT: 'soft-light',
+  DIFFERENCE: 'difference',
+  EXCLUSION: 'exclusion',
+  HUE: 'hue',
+  SATURATION: 'saturation',
+  COLOR: 'color',
+  LUMINOSITY: 'luminosity',
+};
+
+const CENTERED_STROKE_TYPES: string[] = ['VECTOR', 'BOOLEAN_OPERATION', 'LINE'];
+const STROKE_ALIGN = { INSIDE: 'inside', OUTSIDE: 'outside', CENTER: 'center' } as const;
+
+// Szóhatáros névminták: a szerep és a kattinthatóság ugyanezekből dönt, így például a
+// „Linkedin” réteg nem lesz link
+const BUTTON_NAME = /\b(button|btn|cta)\b/;
+const LINK_NAME = /\blink\b/;
+const INTERACTIVE_NAMES = [BUTTON_NAME, LINK_NAME, /\bclick(able)?\b/];
+
+const JUSTIFY = { MIN: 'start', CENTER: 'center', MAX: 'end', SPACE_BETWEEN: 'space-between' } as const;
+const ALIGN = { MIN: 'start', CENTER: 'center', MAX: 'end', BASELINE: 'baseline' } as const;
+
+// A teljes fa egyszeri felépítése; az osztálynevek preorder sorrendben számozódnak
+export function buildDesignTree(root: FigmaNode): DesignNode {
+  const classNameCounts = new Map<string, number>();
+
+  const build = (node: FigmaNode, parent?: FigmaNode): DesignNode => {
+    const base = toClassName(node.name) || 'node';
+    const count = (classNameCounts.get(base) || 0) + 1;
+    classNameCounts.set(base, count);
+
+    const role = resolveRole(node);
+    const asset = resolveAsset(node, role);
+
+    return {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      role,
+      tag: role === 'heading' ? headingTag(node) : ROLE_TAGS[role],
+      className: count === 1 ? base : `${base}-${count}`,
+      interactive: node.type !== 'TEXT' && isInteractiveName(node.name.toLowerCase()),
+      ...(node.type === 'TEXT' && { text: node.characters || '' }),
+      ...(asset && { asset }),
+      style: resolveStyle(node, parent),
+      // A vektorok gyerekei a geometriájukba olvadnak
+      children: role === 'vector' ? [] : (node.children || []).map(child => build(child, node)),
+    };
+  };
+
+  return build(root);
+}
+
+// A komponens bemenetei: a gyökér szövege felülírható, a gyökér képnek forrás és alt kell
+export function componentProps(root: DesignNode): DesignProp[] {
+  if (root.text !== undefined) {
+    return [{ name: 'text', type: 'string', optional: true }];
+  }
+  if (root.role === 'image') {
+    return [{ name: 'src', type: 'string', optional: false }, { name: 'alt', type: 'string', optional: false }];
+  }
+  return [];
+}
+
+export function toClassName(name: string): string {
+  const className = name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+  // CSS osztálynév nem kezdődhet számmal
+  return /^-?[0-9]/.test(className) ? `node-${className}` : className;
+}
+
+export function resolveColor(color: Color, opacity = 1): DesignColor {
+  return { r: color.r, g: color.g, b: color.b, a: (color.a ?? 1) * opacity };
+}
+
+export function firstSolidColor(fills: DesignFill[]): DesignColor | undefined {
+  for (const fill of fills) {
+    if (fill.type === 'solid') return fill.color;
+  }
+  return undefined;
+}
+
+// Egységes keret a csak egy színt és vastagságot ismerő célokhoz: a legvastagabb oldal
+// és a legfelső szín
+export function uniformStroke(style: DesignStyle): { width: number; color: DesignColor } | undefined {
+  if (!style.stroke) return undefined;
+  const { top, right, bottom, left } = style.stroke.weights;
+  return { width: Math.max(top, right, bottom, left), color: style.stroke.colors[style.stroke.colors.length - 1] };
+}
+
+// A belső árnyékot nem ismerő célokhoz
+export function dropShadows(style: DesignStyle): DesignShadow[] {
+  return style.shadows.filter(shadow => !shadow.inset);
+}
+
+// Az elválasztó vonal iránya a dobozából: a vonal mentén van kiterjedése
+export function isVerticalDivider(node: DesignNode): boolean {
+  return node.role === 'divider' && (node.style.height || 0) > (node.style.width || 0);
+}
+
+// A terv olyan részletei, amelyeket a kimenet csak közelíteni tud
+export function fidelityNotes(root: DesignNode): string[] {
+  const notes: string[] = [];
+  const visit = (node: DesignNode) => {
+    if (node.style.cornerSmoothing) {
+      notes.push(`${node.name}: a ${Math.round(node.style.cornerSmoothing * 100)}%-os sarokgörbület (corner smoothing) nem reprodukálható, egyszerű lekerekítés lett belőle`);
+    }
+    const asset = node.asset;
+    if (asset?.kind === 'vector' && asset.shape?.kind === 'polygon' && node.style.cornerRadius) {
+      notes.push(asset.fillGeometry.length === 0
+        ? `${node.name}: a csúcsok lekerekítése geometria (geometry=paths) nélkül nem rajzolható, a csúcsok élesek`
+        : `${node.name}: a csúcsok lekerekítése csak a Figma geometriájából jöhet, az <svg> nem kerekít utólag, így a csúcsok élesek maradhatnak`);
+    }
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return notes;
+}
+
+export function containsVector(node: DesignNode): boolean {
+  return node.role === 'vector' || node.children.some(containsVector);
+}
+
+// Szerep a réteg típusa, kitöltése és neve alapján
+function resolveRole(node: FigmaNode): DesignRole {
+  if (node.type === 'TEXT') {
+    if (isHeading(node)) return 'heading';
+    const text = node.characters || '';
+    return text.length > 80 || text.includes('\n') ? 'paragraph' : 'text';
+  }
+
+  // Kép, ha a legfelső látható kitöltés kép; a letakart kép háttérréteg marad
+  if (topmostFill(node)?.type === 'IMAGE') return 'image';
+  // Vízszintes vagy függőleges vonal elválasztó; a teljes ellipszis lekerekített doboz,
+  // csak a körcikk és a gyűrű kell SVG-nek
+  if (node.type === 'LINE' && isAxisAligned(node)) return 'divider';
+  if (node.type === 'ELLIPSE' && !isArc(node)) return 'container';
+  if (VECTOR_TYPES.includes(node.type)) return 'vector';
+
+  const name = node.name.toLowerCase();
+  if (BUTTON_NAME.test(name)) return 'button';
+  if (LINK_NAME.test(name)) return 'link';
+  if (/\b(nav|navbar|navigation|menu)\b/.test(name)) return 'navigation';
+  if (/\b(header|topbar)\b/.test(name)) return 'header';
+  if (/\bfooter\b/.test(name)) return 'footer';
+  if (/\b(aside|sidebar)\b/.test(name)) return 'aside';
+  if (/\b(section|hero)\b/.test(name)) return 'section';
+  if (/\b(article|card)\b/.test(name)) return 'article';
+
+  return 'container';
+}
+
+function isInteractiveName(name: string): boolean {
+  return INTERACTIVE_NAMES.some(pattern => pattern.test(name));
+}
+
+function isAxisAligned(node: FigmaNode): boolean {
+  const box = node.absoluteBoundingBox;
+  return !!box && Math.min(box.width, box.height) < 0.01;
+}
+
+function isArc(node: FigmaNode): boolean {
+  return !!node.arcData && (node.arcData.innerRadius > 0 || arcSweep(node.arcData) < Math.PI * 2 - 0.001);
+}
+
+// A végszög a kezdő előtt is lehet; a teljes kör sem nulla
+function arcSweep(arc: NonNullable<FigmaNode['arcData']>): number {
+  const sweep = (arc.endingAngle - arc.startingAngle) % (Math.PI * 2);
+  return sweep <= 0 ? sweep + Math.PI * 2 : sweep;
+}
+
+function isHeading(node: FigmaNode): boolean {
+  const name = node.name.toLowerCase();
+  return name.includes('title') ||
+    name.includes('heading') ||
+    name.includes('header') ||
+    (node.style?.fontSize !== undefined && node.style.fontSize > 20);
+}
+
+function headingTag(node: FigmaNode): string {
+  const fontSize = node.style?.fontSize || 0;
+  if (fontSize >= 32) return 'h1';
+  if (fontSize >= 24) return 'h2';
+  return 'h3';
+}
+
+function topmostFill(node: FigmaNode): Paint | undefined {
+  return (node.fills || []).filter(fill => fill.visible !== false).pop();
+}
+
+function resolveAsset(node: FigmaNode, role: DesignRole): DesignAsset | undefined {
+  if (role === 'image') {
+    const image = topmostFill(node);
+    return { kind: 'image', ...(image?.imageRef && { imageRef: image.imageRef }) };
+  }
+  if (role === 'vector') {
+    const shape = resolveShape(node);
+    return {
+      kind: 'vector',
+      fillGeometry: node.fillGeometry || [],
+      strokeGeometry: node.strokeGeometry || [],
+      ...(shape && { shape }),
+    };
+  }
+  return undefined;
+}
+
+function resolveShape(node: FigmaNode): DesignShape | undefined {
+  if (node.type === 'ELLIPSE' && node.arcData) {
+    return {
+      kind: 'arc',
+      startAngle: node.arcData.startingAngle,
+      sweep: arcSweep(node.arcData),
+      innerRadius: node.arcData.innerRadius,
+    };
+  }
+  if (node.type === 'STAR' || node.type === 'REGULAR_POLYGON') {
+    return { kind: 'polygon', points: polygonPoints(node) };
+  }
+  return undefined;
+}
+
+// A csúcsok a felső csúcsból indulva az egységkörön, a csillag belső csúcsai a belső
+// sugáron; a Figma az alakzatot a dobozába nyújtja, ezért a befoglaló téglalapjára
+// normalizálunk. A REST API a csúcsszámot nem adja, ott a Figma alapértékei élnek.
+function polygonPoints(node: FigmaNode): Vector[] {
+  const star = node.type === 'STAR';
+  const count = Math.max(3, Math.round(node.pointCount ?? (star ? 5 : 3)));
+  const innerRadius = node.innerRadius ?? 0.382;
+  const total = star ? count * 2 : count;
+
+  const vertices = Array.from({ length: total }, (_, index) => {
+    const angle = -Math.PI / 2 + index * Math.PI * 2 / total;
+    const radius = star && index % 2 === 1 ? innerRadius : 1;
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  });
+
+  const xs = vertices.map(vertex => vertex.x);
+  const ys = vertices.map(vertex => vertex.y);
+  const [minX, minY] = [Math.min(...xs), Math.min(...ys)];
+  const width = Math.max(...xs) - minX || 1;
+  const height = Math.max(...ys) - minY || 1;
+  return vertices.map(vertex => ({ x: (vertex.x - minX) / width, y: (vertex.y - minY) / height }));
+}
+
+function resolveStyle(node: FigmaNode, parent?: FigmaNode): DesignStyle {
+  const style: DesignStyle = { fills: [], shadows: [] };
+  const box = node.absoluteBoundingBox;
+
+  if (box) {
+    style.width = box.width;
+    style.height = box.height;
+  }
+
+  const parentBox = parent?.absoluteBoundingBox;
+  if (parent && (!parent.layoutMode || parent.layoutMode === 'NONE') && box && parentBox) {
+    style.offset = { x: box.x - parentBox.x, y: box.y - parentBox.y };
+  }
+
+  if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+    style.layout = {
+      direction: node.layoutMode === 'HORIZONTAL' ? 'row' : 'column',
+      gap: node.itemSpacing || 0,
+      ...(node.primaryAxisAlignItems && { justify: JUSTIFY[node.primaryAxisAlignItems] }),
+      ...(node.counterAxisAlignItems && { align: ALIGN[node.counterAxisAlignItems] }),
+    };
+  }
+
+  if (node.paddingTop || node.paddingRight || node.paddingBottom || node.paddingLeft) {
+    style.padding = {
+      top: node.paddingTop || 0,
+      right: node.paddingRight || 0,
+      bottom: node.paddingBottom || 0,
+      left: node.paddingLeft || 0,
+    };
+  }
+
+  const fills = (node.fills || []).flatMap(resolveFill);
+  // A frame háttérszíne csak akkor számít, ha nincs látható kitöltés
+  if (fills.length === 0 && node.backgroundColor && node.type !== 'TEXT') {
+    fills.push({ type: 'solid', color: resolveColor(node.backgroundColor) });
+  }
+
+  if (node.type === 'TEXT') {
+    // Szövegnél a kitöltés a betűszín
+    const textFill = node.style?.fills?.find(fill => fill.color && fill.visible !== false);
+    const color = textFill?.color ? resolveColor(textFill.color, textFill.opacity) : firstSolidColor(fills);
+    if (color) style.color = color;
+
+    if (node.style) {
+      const { fontFamily, fontSize, fontWeight, lineHeightPx, letterSpacing } = node.style;
+      style.text = { fontFamily, fontSize };
+      if (fontWeight) style.text.fontWeight = fontWeight;
+      if (lineHeightPx !== undefined) style.text.lineHeight = lineHeightPx;
+      if (letterSpacing !== undefined) style.text.letterSpacing = letterSpacing;
+    }
+  } else {
+    style.fills = fills;
+  }
+
+  // Eltérő sarkoknál a Figma a négy sugarat adja, egyezőknél csak a cornerRadius-t
+  const radii = node.rectangleCornerRadii;
+  if (radii && radii.some(radius => radius !== radii[0])) {
+    const [topLeft, topRight, bottomRight, bottomLeft] = radii;
+    style.cornerRadii = { topLeft, topRight, bottomRight, bottomLeft };
+  } else if (node.cornerRadius || radii?.[0]) {
+    style.cornerRadius = node.cornerRadius || radii![0];
+  }
+  if (node.cornerSmoothing && (style.cornerRadius || style.cornerRadii)) {
+    style.cornerSmoothing = node.cornerSmoothing;
+  }
+
+  const stroke = resolveStroke(node);
+  if (stroke) {
+    style.stroke = stroke;
+  }
+
+  if (node.opacity !== undefined && node.opacity !== 1) {
+    style.opacity = node.opacity;
+  }
+
+  const blendMode = node.blendMode && BLEND_MODES[node.blendMode];
+  if (blendMode) {
+    style.blendMode = blendMode;
+  }
+
+  const effects = (node.effects || []).filter(effect => effect.visible !== false);
+  style.shadows = effects
+    .filter(effect => effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW')
+    .map(effect => ({
+      x: effect.offset?.x || 0,
+      y: effect.offset?.y || 0,
+      blur: effect.radius || 0,
+      spread: effect.spread || 0,
+      color: effect.color ? resolveColor(effect.color) : { r: 0, g: 0, b: 0, a: 0.25 },
+      inset: effect.type === 'INNER_SHADOW',
+      behindNode: effect.type === 'DROP_SHADOW' && effect.showShadowBehindNode === true,
+    }));
+
+  const layerBlur = effects.find(effect => effect.type === 'LAYER_BLUR');
+  if (layerBlur?.radius) {
+    style.blur = layerBlur.radius;
+  }
+  const backgroundBlur = effects.find(effect => effect.type === 'BACKGROUND_BLUR');
+  if (backgroundBlur?.radius) {
+    style.backgroundBlur = backgroundBlur.radius;
+  }
+
+  return style;
+}
+
+// Csak az egyszínű vonalak; a Figma alapértelmezése zárt alakzatnál belső, tollal rajzolt
+// vektornál és vonalnál középre igazított
+function resolveStroke(node: FigmaNode): DesignStroke | undefined {
+  const colors = (node.strokes || [])
+    .filter(paint => paint.type === 'SOLID' && paint.color && paint.visible !== false)
+    .map(paint => resolveColor(paint.color!, paint.opacity));
+
+  const individual = node.individualStrokeWeights;
+  const weight = node.strokeWeight || 0;
+  const weights = individual
+    ? { top: individual.top, right: individual.right, bottom: individual.bottom, left: individual.left }
+    : { top: weight, right: weight, bottom: weight, left: weight };
+  if (colors.length === 0 || Math.max(weights.top, weights.right, weights.bottom, weights.left) <= 0) return undefined;
+
+  const defaultAlign = CENTERED_STROKE_TYPES.includes(node.type) ? 'CENTER' : 'INSIDE';
+  return {
+    colors,
+    weights,
+    align: STROKE_ALIGN[node.strokeAlign || defaultAlign],
+    dashes: (node.strokeDashes || []).filter(length => length >= 0),
+    cap: node.strokeCap === 'ROUND' ? 'round' : node.strokeCap === 'SQUARE' ? 'square' : 'butt',
+    join: node.strokeJoin === 'ROUND' ? 'round' : node.strokeJoin === 'BEVEL' ? 'bevel' : 'miter',
+  };
+}
+
+function resolveFill(paint: Paint): DesignFill[] {
+  if (paint.visible === false) return [];
+  const blendMode = paint.blendMode && BLEND_MODES[paint.blendMode];
+  const blend = blendMode ? { blendMode } : {};
+  if (paint.type === 'SOLID' && paint.color) return [{ type: 'solid', color: resolveColor(paint.color, paint.opacity), ...blend }];
+  if (GRADIENT_KINDS[paint.type]) return resolveGradient(paint, GRADIENT_KINDS[paint.type]).map(fill => ({ ...fill, ...blend }));
+  if (paint.type === 'IMAGE') return [{ type: 'image', ...(paint.imageRef && { imageRef: paint.imageRef }), ...blend }];
+  return [];
+}
+
+// A festék átlátszósága a stopok színébe szorzódik; stop nélküli gradiens nem rajzol semmit
+function resolveGradient(paint: Paint, kind: DesignGradient['kind']): DesignFill[] {
+  const stops = (paint.gradientStops || [])
+    .map(stop => ({ position: stop.position, color: resolveColor(stop.color, paint.opacity) }))
+    .sort((a, b) => a.position - b.position);
+  if (stops.length === 0) return [];
+
+  // Szélességpont nélkül a tengelyre merőleges, azonos hosszú szakasz
+  const [start, end, width] = paint.gradientHandlePositions || [];
+  const handles: [Vector, Vector, Vector] = start && end
+    ? [start, end, width || { x: start.x - (end.y - start.y), y: start.y + (end.x - start.x) }]
+    : DEFAULT_HANDLES[kind];
+
+  return [{ type: 'gradient', kind, handles, stops }];
+}
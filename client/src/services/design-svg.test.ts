@@ -0,0 +1,81 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildDesignTree } from './design-ir';
+import { jsxAttributeName, svgMarkup, svgRootAttributes, vectorShapes } from './design-svg';
+import type { FigmaNode, Paint } from '../types/types';
+
+const red: Paint = { type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } };
+const black: Paint = { type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } };
+
+function vector(overrides: Partial<FigmaNode>) {
+  return buildDesignTree({
+    id: '9:1',
+    name: 'Shape',
+    type: 'VECTOR',
+    absoluteBoundingBox: { x: 0, y: 0, width: 24, height: 24 },
+    fills: [red],
+    ...overrides,
+  });
+}
+
+describe('vectorShapes', () => {
+  test('prefers the Figma geometry with its winding rule', () => {
+    const shapes = vectorShapes(vector({ fillGeometry: [{ path: 'M0 0L24 0L24 24Z', windingRule: 'EVENODD' }] }));
+
+    assert.deepEqual(shapes, [{
+      tag: 'path',
+      attributes: [['d', 'M0 0L24 0L24 24Z'], ['fill-rule', 'evenodd'], ['fill', 'rgba(255, 0, 0, 1)']],
+    }]);
+  });
+
+  test('computes polygons and stars from their parameters', () => {
+    const [triangle] = vectorShapes(vector({ type: 'REGULAR_POLYGON' }));
+    const [star] = vectorShapes(vector({ type: 'STAR' }));
+
+    assert.equal(triangle.tag, 'polygon');
+    assert.deepEqual(triangle.attributes[0], ['points', '12,0 24,24 0,24']);
+    assert.equal(star.attributes[0][1].toString().split(' ').length, 10);
+  });
+
+  test('draws arcs as pie slices and ring segments', () => {
+    const quarter = { startingAngle: 0, endingAngle: Math.PI / 2 };
+    const [pie] = vectorShapes(vector({ type: 'ELLIPSE', arcData: { ...quarter, innerRadius: 0 } }));
+    const [ring] = vectorShapes(vector({ type: 'ELLIPSE', arcData: { ...quarter, innerRadius: 0.5 } }));
+
+    assert.deepEqual(pie.attributes[0], ['d', 'M24 12 A12 12 0 0 1 12 24 L12 12Z']);
+    assert.deepEqual(ring.attributes[0], ['d', 'M24 12 A12 12 0 0 1 12 24 L12 18 A6 6 0 0 0 18 12Z']);
+  });
+
+  test('moves rectangle strokes to their Figma alignment and overlays further colors', () => {
+    const shapes = vectorShapes(vector({ type: 'RECTANGLE', strokes: [black, red], strokeWeight: 2, strokeAlign: 'INSIDE', cornerRadius: 4 }));
+
+    assert.deepEqual(shapes.map(shape => shape.tag), ['rect', 'rect']);
+    assert.deepEqual(shapes[0].attributes.slice(0, 5), [['x', 1], ['y', 1], ['width', 22], ['height', 22], ['rx', 3]]);
+    assert.deepEqual(shapes[1].attributes.find(([name]) => name === 'fill'), ['fill', 'none']);
+    assert.deepEqual(shapes[1].attributes.find(([name]) => name === 'stroke'), ['stroke', 'rgba(255, 0, 0, 1)']);
+  });
+
+  test('keeps the stroke visible outside the root box', () => {
+    assert.deepEqual(svgRootAttributes(vector({ strokes: [black], strokeWeight: 1 })).at(-1), ['overflow', 'visible']);
+    assert.deepEqual(svgRootAttributes(vector({})), [['width', 24], ['height', 24], ['viewBox', '0 0 24 24']]);
+  });
+});
+
+describe('svgMarkup', () => {
+  test('renders the root attributes first and escapes values', () => {
+    const markup = svgMarkup(vector({ fillGeometry: [{ path: 'M0 0"<&', windingRule: 'NONZERO' }] }), ['class="shape"'], '  ');
+
+    assert.equal(markup, [
+      '  <svg class="shape" width="24" height="24" viewBox="0 0 24 24">',
+      '    <path d="M0 0&quot;&lt;&amp;" fill="rgba(255, 0, 0, 1)" />',
+      '  </svg>',
+    ].join('\n'));
+  });
+});
+
+describe('jsxAttributeName', () => {
+  test('camel-cases hyphenated SVG attributes', () => {
+    assert.equal(jsxAttributeName('stroke-dasharray'), 'strokeDasharray');
+    assert.equal(jsxAttributeName('viewBox'), 'viewBox');
+  });
+});
@@ -0,0 +1,137 @@
+import { firstSolidColor, type DesignColor, type DesignNode, type DesignShape } from './design-ir';
+import { colorToCSS } from './design-css';
+
+// Vektor node-ok SVG-je a köztes reprezentációból: a webes célok inline <svg>-t, a
+// React Native a react-native-svg elemeit kapja ugyanezekből az alakzatokból. Az
+// attribútumnevek SVG alakban (kebab-case) vannak, a JSX-es célok alakítják át.
+
+export type SvgAttribute = [name: string, value: string | number];
+
+export interface SvgShape {
+  tag: 'path' | 'polygon' | 'line' | 'rect';
+  attributes: SvgAttribute[];
+}
+
+// A gyökér <svg> mérete és nézete; a középre vagy kifelé igazított vonal kilóg a dobozból
+export function svgRootAttributes(node: DesignNode): SvgAttribute[] {
+  const width = node.style.width || 0;
+  const height = node.style.height || 0;
+  return [
+    ['width', width],
+    ['height', height],
+    ['viewBox', `0 0 ${width} ${height}`],
+    ...(node.style.stroke ? [['overflow', 'visible'] as SvgAttribute] : []),
+  ];
+}
+
+// A Figma geometriája (geometry=paths) pontos; nélküle a körív és a sokszög a
+// paramétereiből számolódik, más vektor a dobozát kapja. Az SVG vonal mindig a körvonal
+// közepére rajzol: téglalapnál a geometria fél vonalvastagsággal zsugorodik vagy nő,
+// így a sáv a Figma igazítása szerinti helyre esik, útvonalaknál és sokszögnél ez nem
+// számolható, ott a vonal középre igazított marad. A további vonalszínek kitöltés
+// nélküli másolatokként kerülnek az alakzat fölé.
+export function vectorShapes(node: DesignNode): SvgShape[] {
+  const { style } = node;
+  const width = style.width || 0;
+  const height = style.height || 0;
+  const fill = firstSolidColor(style.fills);
+  const stroke = style.stroke;
+  const strokeWidth = stroke ? Math.max(stroke.weights.top, stroke.weights.right, stroke.weights.bottom, stroke.weights.left) : 0;
+  const grow = !stroke ? 0 : { inside: -strokeWidth / 2, center: 0, outside: strokeWidth / 2 }[stroke.align];
+  const geometry = node.asset?.kind === 'vector' ? node.asset.fillGeometry : [];
+  const shape = node.asset?.kind === 'vector' ? node.asset.shape : undefined;
+
+  const shapes = (paint: SvgAttribute[]): SvgShape[] => {
+    if (geometry.length > 0) {
+      return geometry.map(path => ({
+        tag: 'path',
+        attributes: [
+          ['d', path.path],
+          ...(path.windingRule === 'EVENODD' ? [['fill-rule', 'evenodd'] as SvgAttribute] : []),
+          ...paint,
+        ],
+      }));
+    }
+    if (shape?.kind === 'arc') {
+      return [{ tag: 'path', attributes: [['d', arcPath(shape, width, height)], ['fill-rule', 'evenodd'], ...paint] }];
+    }
+    if (shape?.kind === 'polygon') {
+      const points = shape.points.map(point => `${round(point.x * width)},${round(point.y * height)}`).join(' ');
+      return [{ tag: 'polygon', attributes: [['points', points], ...paint] }];
+    }
+    if (node.type === 'LINE') {
+      return [{ tag: 'line', attributes: [['x1', 0], ['y1', 0], ['x2', width], ['y2', height], ...paint] }];
+    }
+    const radius = style.cornerRadius ? [['rx', round(Math.max(style.cornerRadius + grow, 0))] as SvgAttribute] : [];
+    return [{
+      tag: 'rect',
+      attributes: [
+        ...(grow ? [['x', round(-grow)], ['y', round(-grow)]] as SvgAttribute[] : []),
+        ['width', round(Math.max(width + grow * 2, 0))],
+        ['height', round(Math.max(height + grow * 2, 0))],
+        ...radius,
+        ...paint,
+      ],
+    }];
+  };
+
+  const strokePaint = (color: DesignColor): SvgAttribute[] => !stroke ? [] : [
+    ['stroke', colorToCSS(color)],
+    ['stroke-width', strokeWidth],
+    ...(stroke.dashes.length > 0 ? [['stroke-dasharray', stroke.dashes.join(' ')] as SvgAttribute] : []),
+    ...(stroke.cap !== 'butt' ? [['stroke-linecap', stroke.cap] as SvgAttribute] : []),
+    ...(stroke.join !== 'miter' ? [['stroke-linejoin', stroke.join] as SvgAttribute] : []),
+  ];
+
+  const [bottom, ...overlays] = stroke?.colors || [];
+  return [
+    ...shapes([['fill', fill ? colorToCSS(fill) : 'none'], ...(bottom ? strokePaint(bottom) : [])]),
+    ...overlays.flatMap(color => shapes([['fill', 'none'], ...strokePaint(color)])),
+  ];
+}
+
+// Inline <svg> a HTML alapú sablonokhoz; az attribútumok a cél saját (osztály, kötés) attribútumai
+export function svgMarkup(node: DesignNode, attributes: string[], indent: string): string {
+  const render = (pairs: SvgAttribute[]) => pairs.map(([name, value]) => ` ${name}="${escapeAttribute(String(value))}"`).join('');
+  const open = `<svg${attributes.map(a => ` ${a}`).join('')}${render(svgRootAttributes(node))}>`;
+  const shapes = vectorShapes(node).map(shape => `${indent}  <${shape.tag}${render(shape.attributes)} />`);
+  return `${indent}${open}
+${shapes.join('\n')}
+${indent}</svg>`;
+}
+
+// Körcikk vagy gyűrűszelet a doboz ellipszisén; a teljes gyűrű két zárt ellipszis,
+// a belső a páros-páratlan kitöltéssel lyuk lesz
+function arcPath(arc: Extract<DesignShape, { kind: 'arc' }>, width: number, height: number): string {
+  const [rx, ry] = [width / 2, height / 2];
+  const point = (angle: number, scale: number) =>
+    `${round(rx + Math.cos(angle) * rx * scale)} ${round(ry + Math.sin(angle) * ry * scale)}`;
+  const radii = (scale: number) => `${round(rx * scale)} ${round(ry * scale)}`;
+
+  if (arc.sweep >= Math.PI * 2 - 0.001) {
+    const ellipse = (scale: number) =>
+      `M${point(0, scale)} A${radii(scale)} 0 1 1 ${point(Math.PI, scale)} A${radii(scale)} 0 1 1 ${point(0, scale)}Z`;
+    return `${ellipse(1)} ${ellipse(arc.innerRadius)}`;
+  }
+
+  const end = arc.startAngle + arc.sweep;
+  const largeArc = arc.sweep > Math.PI ? 1 : 0;
+  const outer = `M${point(arc.startAngle, 1)} A${radii(1)} 0 ${largeArc} 1 ${point(end, 1)}`;
+  if (arc.innerRadius > 0) {
+    return `${outer} L${point(end, arc.innerRadius)} A${radii(arc.innerRadius)} 0 ${largeArc} 0 ${point(arc.startAngle, arc.innerRadius)}Z`;
+  }
+  return `${outer} L${round(rx)} ${round(ry)}Z`;
+}
+
+// JSX-ben (React, react-native-svg) az attribútumnevek camelCase alakban
+export function jsxAttributeName(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
@@ -1,59 +1,567 @@
-import { FigmaApiResponse, FigmaNode } from '../types/figma';
+import type { z } from 'zod';
+import type {
+  FigmaApiResponse,
+  FigmaComment,
+  FigmaFileNodesResponse,
+  FigmaImageFillsResponse,
+  FigmaImagesResponse,
+  FigmaPublishedComponent,
+  FigmaPublishedStyle,
+  FigmaUser,
+  FigmaVariablesResponse,
+  FigmaVersionsResponse,
+} from '../types/types';
+import {
+  commentsSchema,
+  componentResponseSchema,
+  figmaFileSchema,
+  fileComponentsSchema,
+  fileNodesSchema,
+  fileStylesSchema,
+  imageFillsSchema,
+  imagesSchema,
+  parseFigmaResponse,
+  styleResponseSchema,
+  userSchema,
+  variablesSchema,
+  versionsSchema,
+} from './figma-schemas';
+
+export { FigmaResponseError } from './figma-schemas';
+
+// The one Figma REST client of the app. Used from the browser and from the
+// server (server/figma.ts), so only web-standard APIs here. Every response is
+// checked against its schema in figma-schemas.ts before it is returned.
+
+export class FigmaApiError extends Error {
+  constructor(
+    public status: number, // 0 when Figma could not be reached at all
+    message: string,
+    public retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'FigmaApiError';
+  }
+}
+
+export interface FigmaClientOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // A longer Retry-After fails right away instead of stalling the caller
+  maxRetryAfterMs?: number;
+  // Long id lists are split so no request URL exceeds this
+  maxUrlLength?: number;
+  scheduler?: RequestScheduler;
+  rateLimiter?: RateLimiter;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface FileRequestOptions extends RequestOptions {
+  depth?: number;
+  version?: string;
+  ids?: string[];
+  geometry?: 'paths';
+}
+
+export interface VersionsRequestOptions extends RequestOptions {
+  pageSize?: number;
+  before?: number;
+  after?: number;
+}
+
+export interface ImageExportOptions extends RequestOptions {
+  format?: 'jpg' | 'png' | 'svg' | 'pdf';
+  scale?: number;
+  svg_include_id?: boolean;
+  svg_simplify_stroke?: boolean;
+}
+
+const DEFAULT_OPTIONS = {
+  maxRetries: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  maxRetryAfterMs: 60000,
+  maxUrlLength: 2000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+function abortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('The operation was aborted', 'AbortError');
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Caps how many requests are on the wire at once; the rest wait in FIFO order
+export class RequestScheduler {
+  private active = 0;
+  private queue: Array<() => void> = [];
+
+  constructor(private maxConcurrency = 4) {}
+
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        this.active++;
+        resolve();
+      };
+      const onAbort = () => {
+        this.queue = this.queue.filter((entry) => entry !== start);
+        reject(abortError(signal!));
+      };
+      this.queue.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private release() {
+    this.active--;
+    this.queue.shift()?.();
+  }
+}
+
+// Sliding-window limiter: at most `maxRequests` starts per `timeWindowMs`
+export class RateLimiter {
+  private requests: number[] = [];
+  private maxRequests: number;
+  private timeWindow: number;
+
+  constructor(maxRequests = 100, timeWindowMs = 60000) {
+    this.maxRequests = maxRequests;
+    this.timeWindow = timeWindowMs;
+  }
+
+  async waitIfNeeded(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      this.requests = this.requests.filter(time => now - time < this.timeWindow);
+
+      if (this.requests.length < this.maxRequests) {
+        this.requests.push(now);
+        return;
+      }
+
+      const oldestRequest = Math.min(...this.requests);
+      await sleep(this.timeWindow - (now - oldestRequest), signal);
+    }
+  }
+
+  // Nothing left in the window (and so nobody waiting): a fresh limiter would behave the same
+  isIdle(now = Date.now()): boolean {
+    return this.requests.every(time => now - time >= this.timeWindow);
+  }
+}
+
+// Shared by every client in this process: Figma's limits apply per token, not per client instance.
+// Limiters are keyed by a fingerprint of the token and dropped once they have gone idle.
+const defaultScheduler = new RequestScheduler(4);
+const rateLimiters = new Map<string, RateLimiter>();
+
+function sharedRateLimiter(fingerprint: string): RateLimiter {
+  const now = Date.now();
+  rateLimiters.forEach((limiter, key) => {
+    if (key !== fingerprint && limiter.isIdle(now)) rateLimiters.delete(key);
+  });
+
+  let limiter = rateLimiters.get(fingerprint);
+  if (!limiter) {
+    limiter = new RateLimiter();
+    rateLimiters.set(fingerprint, limiter);
+  }
+  return limiter;
+}
+
+// 53-bit string hash (cyrb53), so the token itself isn't kept around as a map key. Not
+// cryptographic: a collision only makes two tokens share one rate budget.
+function tokenFingerprint(token: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < token.length; i++) {
+    const char = token.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Identical GETs (same token, same URL) share one network request
+const inFlight = new Map<string, InFlightRequest>();
 
 export class FigmaApiClient {
   private baseUrl = 'https://api.figma.com/v1';
   private apiKey: string;
+  private options: typeof DEFAULT_OPTIONS;
+  private scheduler: RequestScheduler;
+  private rateLimiter?: RateLimiter;
+  private tokenFingerprint: string;
+  private fetchImpl: typeof fetch;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: FigmaClientOptions = {}) {
     this.apiKey = apiKey;
+    this.options = {
+      maxRetries: options.maxRetries ?? DEFAULT_OPTIONS.maxRetries,
+      baseDelayMs: options.baseDelayMs ?? DEFAULT_OPTIONS.baseDelayMs,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_OPTIONS.maxDelayMs,
+      maxRetryAfterMs: options.maxRetryAfterMs ?? DEFAULT_OPTIONS.maxRetryAfterMs,
+      maxUrlLength: options.maxUrlLength ?? DEFAULT_OPTIONS.maxUrlLength,
+    };
+    this.scheduler = options.scheduler ?? defaultScheduler;
+    this.rateLimiter = options.rateLimiter;
+    this.tokenFingerprint = tokenFingerprint(apiKey);
+    // Unbound `fetch` throws "Illegal invocation" in browsers
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
   }
 
-  private async makeRequest<T>(endpoint: string): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
-      headers: {
-        'X-Figma-Token': this.apiKey,
-        'Content-Type': 'application/json',
-      },
+  private async makeRequest<T>(
+    endpoint: string,
+    schema: z.ZodType<unknown, z.ZodTypeDef, unknown>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const data = await this.request(endpoint, signal);
+    // Callers state the model type; the schema guarantees the parts of it we rely on
+    return parseFigmaResponse(schema, data, endpoint) as T;
+  }
+
+  private request(endpoint: string, signal?: AbortSignal): Promise<unknown> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const key = `${this.apiKey}\n${url}`;
+
+    let entry = inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        waiters: 0,
+        promise: this.fetchWithRetry(url, controller.signal).finally(() => {
+          if (inFlight.get(key) === created) inFlight.delete(key);
+        }),
+      };
+      inFlight.set(key, created);
+      entry = created;
+    }
+
+    return this.follow(key, entry, signal);
+  }
+
+  // One caller's view of a shared request: its own abort only rejects its own
+  // promise, and the network request stops once the last caller has given up.
+  private follow(key: string, entry: InFlightRequest, signal?: AbortSignal): Promise<unknown> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+    entry.waiters++;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = () => {
+        settled = true;
+        entry.waiters--;
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        if (settled) return;
+        settle();
+        if (entry.waiters === 0) {
+          if (inFlight.get(key) === entry) inFlight.delete(key);
+          entry.controller.abort();
+        }
+        reject(abortError(signal!));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(
+        (value) => {
+          if (settled) return;
+          settle();
+          resolve(value);
+        },
+        (error) => {
+          if (settled) return;
+          settle();
+          reject(error);
+        },
+      );
     });
+  }
+
+  private async fetchWithRetry(url: string, signal: AbortSignal): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      // Looked up per attempt: the shared limiter may have been dropped while this client sat idle
+      await (this.rateLimiter ?? sharedRateLimiter(this.tokenFingerprint)).waitIfNeeded(signal);
+
+      let result: { response: Response; body: string };
+      try {
+        // The body is read inside the slot too: for large files that is the expensive part
+        result = await this.scheduler.run(async () => {
+          const response = await this.fetchImpl(url, {
+            headers: { 'X-Figma-Token': this.apiKey },
+            signal,
+          });
+          return { response, body: await response.text() };
+        }, signal);
+      } catch (error) {
+        if (isAbortError(error) || signal.aborted) throw error;
+        if (attempt >= this.options.maxRetries) {
+          throw new FigmaApiError(0, `Figma API unreachable: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await sleep(this.backoff(attempt), signal);
+        continue;
+      }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        `Figma API Error: ${response.status} - ${errorData.message || response.statusText}`
+      const { response, body } = result;
+      if (response.ok) {
+        return JSON.parse(body);
+      }
+
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      const errorData = (() => {
+        try {
+          return JSON.parse(body);
+        } catch {
+          return {};
+        }
+      })();
+      const error = new FigmaApiError(
+        response.status,
+        `Figma API Error: ${response.status} - ${errorData.message || errorData.err || response.statusText}`,
+        retryAfterMs,
       );
+
+      if (
+        !RETRYABLE_STATUSES.has(response.status) ||
+        attempt >= this.options.maxRetries ||
+        (retryAfterMs !== undefined && retryAfterMs > this.options.maxRetryAfterMs)
+      ) {
+        throw error;
+      }
+
+      await sleep(retryAfterMs ?? this.backoff(attempt), signal);
     }
+  }
 
-    return response.json();
+  // Exponential backoff with full jitter
+  private backoff(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
   }
 
-  async getFile(fileKey: string): Promise<FigmaApiResponse> {
-    return this.makeRequest<FigmaApiResponse>(`/files/${fileKey}`);
+  // Splits ids so that `${base}${ids joined by %2C}` stays within maxUrlLength
+  private chunkIds(base: string, nodeIds: string[]): string[][] {
+    const budget = this.options.maxUrlLength - `${this.baseUrl}${base}`.length;
+    const chunks: string[][] = [];
+    let current: string[] = [];
+    let length = 0;
+
+    for (const id of Array.from(new Set(nodeIds))) {
+      const idLength = encodeURIComponent(id).length;
+      if (current.length > 0 && length + 3 + idLength > budget) {
+        chunks.push(current);
+        current = [];
+      }
+      length = current.length > 0 ? length + 3 + idLength : idLength;
+      current.push(id);
+    }
+    if (current.length > 0) chunks.push(current);
+
+    return chunks;
   }
 
-  async getFileNodes(fileKey: string, nodeIds: string[]): Promise<{ nodes: Record<string, FigmaNode> }> {
-    const ids = nodeIds.join(',');
-    return this.makeRequest(`/files/${fileKey}/nodes?ids=${ids}`);
+  private fileUrl(fileKey: string, path = ''): string {
+    return `/files/${encodeURIComponent(fileKey)}${path}`;
   }
 
+  async getFile(fileKey: string, options: FileRequestOptions = {}): Promise<FigmaApiResponse> {
+    const params = new URLSearchParams();
+    if (options.depth !== undefined) params.set('depth', String(options.depth));
+    if (options.version) params.set('version', options.version);
+    if (options.ids?.length) params.set('ids', options.ids.join(','));
+    if (options.geometry) params.set('geometry', options.geometry);
+    const query = params.toString() ? `?${params}` : '';
+
+    return this.makeRequest(`${this.fileUrl(fileKey)}${query}`, figmaFileSchema, options.signal);
+  }
+
+  async getFileNodes(
+    fileKey: string,
+    nodeIds: string[],
+    options: RequestOptions & { depth?: number } = {}
+  ): Promise<FigmaFileNodesResponse> {
+    const depth = options.depth !== undefined ? `depth=${options.depth}&` : '';
+    const base = `${this.fileUrl(fileKey, '/nodes')}?${depth}ids=`;
+    const results = await Promise.all(
+      this.chunkIds(base, nodeIds).map((ids) =>
+        this.makeRequest<FigmaFileNodesResponse>(
+          `${base}${ids.map(encodeURIComponent).join('%2C')}`,
+          fileNodesSchema,
+          options.signal
+        )
+      )
+    );
+
+    return {
+      ...results[0],
+      nodes: Object.assign({}, ...results.map((result) => result.nodes)),
+    };
+  }
+
+  // Renders nodes; the returned URLs expire after a while on Figma's side
   async exportImages(
-    fileKey: string, 
-    nodeIds: string[], 
-    options: {
-      format?: 'jpg' | 'png' | 'svg' | 'pdf';
-      scale?: number;
-      svg_include_id?: boolean;
-      svg_simplify_stroke?: boolean;
-    } = {}
-  ): Promise<{ images: Record<string, string> }> {
+    fileKey: string,
+    nodeIds: string[],
+    options: ImageExportOptions = {}
+  ): Promise<FigmaImagesResponse> {
     const params = new URLSearchParams({
-      ids: nodeIds.join(','),
       format: options.format || 'png',
       scale: (options.scale || 1).toString(),
       ...(options.svg_include_id && { svg_include_id: 'true' }),
       ...(options.svg_simplify_stroke && { svg_simplify_stroke: 'true' }),
     });
+    const base = `/images/${encodeURIComponent(fileKey)}?${params}&ids=`;
+
+    const results = await Promise.all(
+      this.chunkIds(base, nodeIds).map((ids) =>
+        this.makeRequest<FigmaImagesResponse>(
+          `${base}${ids.map(encodeURIComponent).join('%2C')}`,
+          imagesSchema,
+          options.signal
+        )
+      )
+    );
+
+    return {
+      images: Object.assign({}, ...results.map((result) => result.images)),
+      err: results.find((result) => result.err)?.err ?? null,
+    };
+  }
+
+  // Download URLs of every image used as a fill, keyed by the paint's imageRef
+  async getImageFills(fileKey: string, options: RequestOptions = {}): Promise<FigmaImageFillsResponse> {
+    return this.makeRequest(this.fileUrl(fileKey, '/images'), imageFillsSchema, options.signal);
+  }
+
+  async getComments(fileKey: string, options: RequestOptions = {}): Promise<FigmaComment[]> {
+    const { comments } = await this.makeRequest<{ comments: FigmaComment[] }>(
+      this.fileUrl(fileKey, '/comments'),
+      commentsSchema,
+      options.signal
+    );
+    return comments;
+  }
+
+  async getVersions(fileKey: string, options: VersionsRequestOptions = {}): Promise<FigmaVersionsResponse> {
+    const params = new URLSearchParams();
+    if (options.pageSize) params.set('page_size', String(options.pageSize));
+    if (options.before !== undefined) params.set('before', String(options.before));
+    if (options.after !== undefined) params.set('after', String(options.after));
+    const query = params.toString() ? `?${params}` : '';
+
+    return this.makeRequest(`${this.fileUrl(fileKey, '/versions')}${query}`, versionsSchema, options.signal);
+  }
+
+  // Published components and styles of a library file
+  async getFileComponents(fileKey: string, options: RequestOptions = {}): Promise<FigmaPublishedComponent[]> {
+    const { meta } = await this.makeRequest<{ meta: { components: FigmaPublishedComponent[] } }>(
+      this.fileUrl(fileKey, '/components'),
+      fileComponentsSchema,
+      options.signal
+    );
+    return meta.components;
+  }
+
+  async getComponent(componentKey: string, options: RequestOptions = {}): Promise<FigmaPublishedComponent> {
+    const { meta } = await this.makeRequest<{ meta: FigmaPublishedComponent }>(
+      `/components/${encodeURIComponent(componentKey)}`,
+      componentResponseSchema,
+      options.signal
+    );
+    return meta;
+  }
+
+  async getFileStyles(fileKey: string, options: RequestOptions = {}): Promise<FigmaPublishedStyle[]> {
+    const { meta } = await this.makeRequest<{ meta: { styles: FigmaPublishedStyle[] } }>(
+      this.fileUrl(fileKey, '/styles'),
+      fileStylesSchema,
+      options.signal
+    );
+    return meta.styles;
+  }
+
+  async getStyle(styleKey: string, options: RequestOptions = {}): Promise<FigmaPublishedStyle> {
+    const { meta } = await this.makeRequest<{ meta: FigmaPublishedStyle }>(
+      `/styles/${encodeURIComponent(styleKey)}`,
+      styleResponseSchema,
+      options.signal
+    );
+    return meta;
+  }
+
+  // Variables need an Enterprise plan; other plans get a 403 FigmaApiError
+  async getLocalVariables(fileKey: string, options: RequestOptions = {}): Promise<FigmaVariablesResponse> {
+    return this.makeRequest(this.fileUrl(fileKey, '/variables/local'), variablesSchema, options.signal);
+  }
+
+  async getPublishedVariables(fileKey: string, options: RequestOptions = {}): Promise<FigmaVariablesResponse> {
+    return this.makeRequest(this.fileUrl(fileKey, '/variables/published'), variablesSchema, options.signal);
+  }
 
-    return this.makeRequest(`/images/${fileKey}?${params}`);
+  async getMe(options: RequestOptions = {}): Promise<FigmaUser> {
+    return this.makeRequest('/me', userSchema, options.signal);
   }
 
   static extractFileKey(figmaUrl: string): string {
@@ -72,35 +580,10 @@ export class FigmaApiClient {
   async validateConnection(): Promise<boolean> {
     try {
       // Test with a simple API call
-      await this.makeRequest('/me');
+      await this.getMe();
       return true;
     } catch {
       return false;
     }
   }
 }
-
-// Rate limiting utility
-export class RateLimiter {
-  private requests: number[] = [];
-  private maxRequests: number;
-  private timeWindow: number;
-
-  constructor(maxRequests = 100, timeWindowMs = 60000) {
-    this.maxRequests = maxRequests;
-    this.timeWindow = timeWindowMs;
-  }
-
-  async waitIfNeeded(): Promise<void> {
-    const now = Date.now();
-    this.requests = this.requests.filter(time => now - time < this.timeWindow);
-
-    if (this.requests.length >= this.maxRequests) {
-      const oldestRequest = Math.min(...this.requests);
-      const waitTime = this.timeWindow - (now - oldestRequest);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-
-    this.requests.push(now);
-  }
-}
\ No newline at end of file
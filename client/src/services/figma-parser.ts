@@ -1,243 +1,65 @@
-import { FigmaApiResponse, FigmaNode, GeneratedComponent } from '../types/figma';
-
-export function parseFigmaDocument(figmaData: FigmaApiResponse): GeneratedComponent[] {
-  const components: GeneratedComponent[] = [];
-  
-  // Simple parser implementation
-  function traverseNode(node: FigmaNode, depth = 0): void {
-    if (shouldGenerateComponent(node)) {
-      const component = nodeToComponent(node);
-      if (component) {
-        components.push(component);
-      }
-    }
-    
-    if (node.children) {
-      node.children.forEach(child => traverseNode(child, depth + 1));
-    }
-  }
-  
-  // Start traversing from document root
-  if (figmaData.document.children) {
-    figmaData.document.children.forEach(canvas => {
-      if (canvas.children) {
-        canvas.children.forEach(child => traverseNode(child));
-      }
-    });
-  }
-  
-  return components;
-}
-
-function shouldGenerateComponent(node: FigmaNode): boolean {
-  // Generate components for frames, components, and meaningful elements
-  return ['FRAME', 'COMPONENT', 'COMPONENT_SET'].includes(node.type) ||
-         (node.type === 'RECTANGLE' && node.children && node.children.length > 0);
-}
-
-function nodeToComponent(node: FigmaNode): GeneratedComponent | null {
-  try {
-    const componentName = sanitizeComponentName(node.name);
-    const jsx = generateJSX(node);
-    const css = generateCSS(node);
-    
-    return {
-      id: node.id,
-      name: componentName,
-      jsx,
-      css,
-      accessibility: {
-        score: 85,
-        issues: [],
-        suggestions: ['Add alt text for images', 'Ensure proper heading hierarchy'],
-        wcagCompliance: 'AA'
-      },
-      responsive: {
-        mobile: 'responsive',
-        tablet: 'responsive', 
-        desktop: 'responsive',
-        hasResponsiveDesign: true
-      },
-      metadata: {
-        figmaNodeId: node.id,
-        componentType: detectComponentType(node),
-        complexity: 'medium',
-        estimatedAccuracy: 85,
-        generationTime: Date.now(),
-        dependencies: ['react']
-      }
-    };
-  } catch (error) {
-    console.warn(`Failed to generate component for node ${node.id}:`, error);
-    return null;
-  }
-}
-
-function generateJSX(node: FigmaNode): string {
-  const componentName = sanitizeComponentName(node.name);
-  const className = generateTailwindClasses(node);
-  const children = generateChildren(node);
-  
-  return `import React from 'react';
-
-export const ${componentName}: React.FC = () => {
-  return (
-    <div className="${className}">
-      ${children || 'Content'}
-    </div>
-  );
+import { FigmaApiResponse, FigmaNode, GeneratedComponent } from '../types/types';
+import { AdvancedCodeGenerator, type CodeGenerationOptions, type GenerationTarget } from './advanced-code-generator';
+
+// Quick client-side preview: React + Tailwind through the same design IR and
+// emitters as the server pipeline, so both produce identical code.
+const PREVIEW_OPTIONS: CodeGenerationOptions = {
+  framework: 'react',
+  styling: 'tailwind',
+  typescript: true,
+  accessibility: true,
+  responsive: true,
+  optimizeImages: false,
 };
 
-export default ${componentName};`;
+// A node that could not be turned into a component; the rest of the document still is
+export interface ComponentFailure {
+  nodeId: string;
+  name: string;
+  error: string;
 }
 
-function generateCSS(node: FigmaNode): string {
-  const styles = extractStyles(node);
-  return `/* Generated styles for ${node.name} */
-.${sanitizeComponentName(node.name).toLowerCase()} {
-  ${Object.entries(styles).map(([key, value]) => `${key}: ${value};`).join('\n  ')}
-}`;
+export interface ParsedFigmaDocument {
+  components: GeneratedComponent[];
+  failures: ComponentFailure[];
 }
 
-function generateChildren(node: FigmaNode): string {
-  if (!node.children || node.children.length === 0) {
-    if (node.type === 'TEXT' && node.characters) {
-      return node.characters;
+export function parseFigmaDocument(figmaData: FigmaApiResponse): ParsedFigmaDocument {
+  const generator = new AdvancedCodeGenerator(figmaData, PREVIEW_OPTIONS);
+  const result: ParsedFigmaDocument = { components: [], failures: [] };
+
+  // Start traversing from the canvases of the document root
+  findTargets(figmaData.document).forEach(target => {
+    try {
+      result.components.push(generator.generateComponent(target));
+    } catch (error) {
+      result.failures.push({
+        nodeId: target.node.id,
+        name: target.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
-    return '';
-  }
-  
-  return node.children
-    .map(child => {
-      const tag = getHtmlTag(child);
-      const className = generateTailwindClasses(child);
-      const content = child.type === 'TEXT' && child.characters ? child.characters : '';
-      
-      return `<${tag} className="${className}">${content}</${tag}>`;
-    })
-    .join('\n      ');
-}
+  });
 
-function getHtmlTag(node: FigmaNode): string {
-  switch (node.type) {
-    case 'TEXT': return 'span';
-    case 'FRAME': return 'div';
-    case 'RECTANGLE': return 'div';
-    case 'ELLIPSE': return 'div';
-    default: return 'div';
-  }
+  return result;
 }
 
-function generateTailwindClasses(node: FigmaNode): string {
-  const classes: string[] = [];
-  
-  // Layout
-  if (node.layoutMode === 'HORIZONTAL') {
-    classes.push('flex', 'flex-row');
-  } else if (node.layoutMode === 'VERTICAL') {
-    classes.push('flex', 'flex-col');
-  }
-  
-  // Spacing
-  if (node.itemSpacing) {
-    classes.push(`gap-${Math.round(node.itemSpacing / 4)}`);
-  }
-  
-  // Padding
-  if (node.paddingLeft) classes.push(`pl-${Math.round(node.paddingLeft / 4)}`);
-  if (node.paddingRight) classes.push(`pr-${Math.round(node.paddingRight / 4)}`);
-  if (node.paddingTop) classes.push(`pt-${Math.round(node.paddingTop / 4)}`);
-  if (node.paddingBottom) classes.push(`pb-${Math.round(node.paddingBottom / 4)}`);
-  
-  // Background color
-  if (node.backgroundColor) {
-    classes.push(colorToTailwind(node.backgroundColor));
-  }
-  
-  // Border radius
-  if (node.cornerRadius) {
-    classes.push(borderRadiusToTailwind(node.cornerRadius));
-  }
-  
-  // Text styles
-  if (node.type === 'TEXT' && node.style) {
-    if (node.style.fontSize) {
-      classes.push(fontSizeToTailwind(node.style.fontSize));
-    }
-  }
-  
-  return classes.join(' ');
-}
+function findTargets(document: FigmaNode): GenerationTarget[] {
+  const targets: GenerationTarget[] = [];
 
-function extractStyles(node: FigmaNode): Record<string, string> {
-  const styles: Record<string, string> = {};
-  
-  if (node.absoluteBoundingBox) {
-    styles.width = `${node.absoluteBoundingBox.width}px`;
-    styles.height = `${node.absoluteBoundingBox.height}px`;
-  }
-  
-  if (node.backgroundColor) {
-    const { r, g, b, a = 1 } = node.backgroundColor;
-    styles.backgroundColor = `rgba(${Math.round(r * 255)}, ${Math.round(g * 255)}, ${Math.round(b * 255)}, ${a})`;
-  }
-  
-  if (node.cornerRadius) {
-    styles.borderRadius = `${node.cornerRadius}px`;
+  function traverseNode(node: FigmaNode): void {
+    if (shouldGenerateComponent(node)) {
+      targets.push({ node, name: node.name });
+    }
+    node.children?.forEach(traverseNode);
   }
-  
-  return styles;
-}
-
-function colorToTailwind(color: any): string {
-  const { r, g, b } = color;
-  
-  // Simplified color mapping
-  if (r > 0.9 && g > 0.9 && b > 0.9) return 'bg-white';
-  if (r < 0.1 && g < 0.1 && b < 0.1) return 'bg-black';
-  if (r > 0.8 && g < 0.3 && b < 0.3) return 'bg-red-500';
-  if (r < 0.3 && g > 0.8 && b < 0.3) return 'bg-green-500';
-  if (r < 0.3 && g < 0.3 && b > 0.8) return 'bg-blue-500';
-  
-  return 'bg-gray-500';
-}
-
-function borderRadiusToTailwind(radius: number): string {
-  if (radius <= 2) return 'rounded-sm';
-  if (radius <= 4) return 'rounded';
-  if (radius <= 6) return 'rounded-md';
-  if (radius <= 8) return 'rounded-lg';
-  if (radius <= 12) return 'rounded-xl';
-  if (radius <= 16) return 'rounded-2xl';
-  return `rounded-[${radius}px]`;
-}
 
-function fontSizeToTailwind(fontSize: number): string {
-  if (fontSize <= 12) return 'text-xs';
-  if (fontSize <= 14) return 'text-sm';
-  if (fontSize <= 16) return 'text-base';
-  if (fontSize <= 18) return 'text-lg';
-  if (fontSize <= 20) return 'text-xl';
-  if (fontSize <= 24) return 'text-2xl';
-  if (fontSize <= 30) return 'text-3xl';
-  return `text-[${fontSize}px]`;
+  document.children?.forEach(canvas => canvas.children?.forEach(traverseNode));
+  return targets;
 }
 
-function sanitizeComponentName(name: string): string {
-  return name
-    .replace(/[^a-zA-Z0-9]/g, '')
-    .replace(/^[0-9]/, 'Component$&')
-    .replace(/^./, str => str.toUpperCase()) || 'Component';
+function shouldGenerateComponent(node: FigmaNode): boolean {
+  // Generate components for frames, components, and meaningful elements
+  return ['FRAME', 'COMPONENT', 'COMPONENT_SET'].includes(node.type) ||
+         (node.type === 'RECTANGLE' && (node.children?.length ?? 0) > 0);
 }
-
-function detectComponentType(node: FigmaNode): 'button' | 'card' | 'text' | 'input' | 'layout' | 'complex' {
-  const name = node.name.toLowerCase();
-  
-  if (name.includes('button')) return 'button';
-  if (name.includes('card')) return 'card';
-  if (name.includes('text') || node.type === 'TEXT') return 'text';
-  if (name.includes('input')) return 'input';
-  if (node.children && node.children.length > 3) return 'layout';
-  
-  return 'complex';
-}
\ No newline at end of file
@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+
+// Runtime checks for Figma REST responses. They pin down what the generator and
+// the UI actually read (ids, names, numeric layout values, paint and effect
+// shapes) and let every other field through untouched, so new Figma fields
+// don't break us while a truncated or malformed document fails up front with
+// the path of the first bad value.
+
+export class FigmaResponseError extends Error {
+  constructor(public endpoint: string, public issues: z.ZodIssue[], message: string) {
+    super(message);
+    this.name = 'FigmaResponseError';
+  }
+}
+
+export function parseFigmaResponse<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, data: unknown, endpoint: string): T {
+  const parsed = schema.safeParse(data);
+  if (!parsed.success) {
+    throw new FigmaResponseError(
+      endpoint,
+      parsed.error.issues,
+      `Unexpected Figma response from ${endpoint}: ${fromZodError(parsed.error, { prefix: null }).message}`,
+    );
+  }
+  return parsed.data;
+}
+
+const stringRecord = <T extends z.ZodTypeAny>(value: T) => z.record(z.string(), value);
+
+export const colorSchema = z.object({
+  r: z.number(),
+  g: z.number(),
+  b: z.number(),
+  a: z.number().optional(),
+}).passthrough();
+
+const vectorSchema = z.object({ x: z.number(), y: z.number() }).passthrough();
+
+export const paintSchema = z.object({
+  type: z.string(),
+  visible: z.boolean().optional(),
+  opacity: z.number().optional(),
+  blendMode: z.string().optional(),
+  color: colorSchema.optional(),
+  imageRef: z.string().optional(),
+  gradientHandlePositions: z.array(vectorSchema).optional(),
+  gradientStops: z.array(z.object({ position: z.number(), color: colorSchema }).passthrough()).optional(),
+}).passthrough();
+
+export const effectSchema = z.object({
+  type: z.string(),
+  visible: z.boolean().optional(),
+  radius: z.number().optional(),
+  color: colorSchema.optional(),
+  blendMode: z.string().optional(),
+  offset: vectorSchema.optional(),
+  spread: z.number().optional(),
+  showShadowBehindNode: z.boolean().optional(),
+}).passthrough();
+
+export const typeStyleSchema = z.object({
+  fontFamily: z.string(),
+  fontSize: z.number(),
+  fontWeight: z.number().optional(),
+  lineHeightPx: z.number().optional(),
+  letterSpacing: z.number().optional(),
+  fills: z.array(paintSchema).optional(),
+}).passthrough();
+
+const vectorPathSchema = z.object({ path: z.string(), windingRule: z.string() }).passthrough();
+
+const boundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+}).passthrough();
+
+type NodeShape = {
+  id: string;
+  name: string;
+  type: string;
+  children?: NodeShape[];
+  [key: string]: unknown;
+};
+
+// `type` stays an open string: Figma adds node types over time and the
+// generator treats unknown ones as plain containers.
+export const figmaNodeSchema: z.ZodType<NodeShape, z.ZodTypeDef, unknown> = z.lazy(() =>
+  z.object({
+    id: z.string(),
+    name: z.string(),
+    type: z.string(),
+    children: z.array(figmaNodeSchema).optional(),
+    absoluteBoundingBox: boundingBoxSchema.nullable().optional(),
+    layoutMode: z.string().optional(),
+    itemSpacing: z.number().optional(),
+    paddingLeft: z.number().optional(),
+    paddingRight: z.number().optional(),
+    paddingTop: z.number().optional(),
+    paddingBottom: z.number().optional(),
+    primaryAxisAlignItems: z.string().optional(),
+    counterAxisAlignItems: z.string().optional(),
+    fills: z.array(paintSchema).optional(),
+    strokes: z.array(paintSchema).optional(),
+    strokeWeight: z.number().optional(),
+    strokeAlign: z.string().optional(),
+    individualStrokeWeights: z.object({
+      top: z.number(),
+      right: z.number(),
+      bottom: z.number(),
+      left: z.number(),
+    }).passthrough().optional(),
+    strokeDashes: z.array(z.number()).optional(),
+    strokeCap: z.string().optional(),
+    strokeJoin: z.string().optional(),
+    cornerRadius: z.number().optional(),
+    rectangleCornerRadii: z.tuple([z.number(), z.number(), z.number(), z.number()]).optional(),
+    cornerSmoothing: z.number().optional(),
+    arcData: z.object({
+      startingAngle: z.number(),
+      endingAngle: z.number(),
+      innerRadius: z.number(),
+    }).passthrough().optional(),
+    pointCount: z.number().optional(),
+    innerRadius: z.number().optional(),
+    backgroundColor: colorSchema.optional(),
+    opacity: z.number().optional(),
+    blendMode: z.string().optional(),
+    effects: z.array(effectSchema).optional(),
+    fillGeometry: z.array(vectorPathSchema).optional(),
+    strokeGeometry: z.array(vectorPathSchema).optional(),
+    characters: z.string().optional(),
+    style: typeStyleSchema.optional(),
+    componentId: z.string().optional(),
+  }).passthrough()
+);
+
+export const componentSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  componentSetId: z.string().optional(),
+}).passthrough();
+
+export const styleSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  styleType: z.string(),
+}).passthrough();
+
+export const figmaFileSchema = z.object({
+  name: z.string(),
+  lastModified: z.string(),
+  version: z.string(),
+  document: figmaNodeSchema,
+  components: stringRecord(componentSchema).default({}),
+  styles: stringRecord(styleSchema).default({}),
+}).passthrough();
+
+export const fileNodesSchema = z.object({
+  name: z.string(),
+  lastModified: z.string(),
+  version: z.string(),
+  nodes: stringRecord(
+    z.object({
+      document: figmaNodeSchema,
+      components: stringRecord(componentSchema).default({}),
+      styles: stringRecord(styleSchema).default({}),
+    }).passthrough().nullable()
+  ),
+}).passthrough();
+
+export const imagesSchema = z.object({
+  err: z.string().nullable().default(null),
+  images: stringRecord(z.string().nullable()),
+}).passthrough();
+
+export const imageFillsSchema = z.object({
+  meta: z.object({ images: stringRecord(z.string()) }).passthrough(),
+}).passthrough();
+
+export const userSchema = z.object({
+  id: z.string(),
+  handle: z.string(),
+  img_url: z.string(),
+  email: z.string().optional(),
+}).passthrough();
+
+export const commentsSchema = z.object({
+  comments: z.array(z.object({
+    id: z.string(),
+    file_key: z.string(),
+    parent_id: z.string().optional(),
+    user: userSchema,
+    created_at: z.string(),
+    resolved_at: z.string().nullable(),
+    message: z.string(),
+    order_id: z.string().nullable().optional(),
+  }).passthrough()),
+}).passthrough();
+
+export const versionsSchema = z.object({
+  versions: z.array(z.object({
+    id: z.string(),
+    created_at: z.string(),
+    label: z.string().nullable(),
+    description: z.string().nullable(),
+    user: userSchema,
+  }).passthrough()),
+  pagination: z.object({
+    prev_page: z.string().optional(),
+    next_page: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+
+const publishedBase = {
+  key: z.string(),
+  file_key: z.string(),
+  node_id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  thumbnail_url: z.string().optional(),
+  created_at: z.string(),
+  updated_at: z.string(),
+};
+
+export const publishedComponentSchema = z.object(publishedBase).passthrough();
+
+export const publishedStyleSchema = z.object({
+  ...publishedBase,
+  style_type: z.enum(['FILL', 'TEXT', 'EFFECT', 'GRID']),
+}).passthrough();
+
+// The library endpoints wrap their payload in { status, error, meta }
+const meta = <T extends z.ZodTypeAny>(payload: T) => z.object({ meta: payload }).passthrough();
+
+export const fileComponentsSchema = meta(z.object({ components: z.array(publishedComponentSchema) }).passthrough());
+export const componentResponseSchema = meta(publishedComponentSchema);
+export const fileStylesSchema = meta(z.object({ styles: z.array(publishedStyleSchema) }).passthrough());
+export const styleResponseSchema = meta(publishedStyleSchema);
+
+export const variablesSchema = meta(z.object({
+  variables: stringRecord(z.object({
+    id: z.string(),
+    name: z.string(),
+    key: z.string(),
+    variableCollectionId: z.string(),
+    resolvedType: z.enum(['BOOLEAN', 'FLOAT', 'STRING', 'COLOR']),
+    valuesByMode: stringRecord(z.unknown()),
+  }).passthrough()),
+  variableCollections: stringRecord(z.object({
+    id: z.string(),
+    name: z.string(),
+    key: z.string(),
+    modes: z.array(z.object({ modeId: z.string(), name: z.string() }).passthrough()),
+    defaultModeId: z.string(),
+    variableIds: z.array(z.string()),
+  }).passthrough()),
+}).passthrough());
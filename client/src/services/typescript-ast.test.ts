@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import ts from 'typescript';
+import { defaultImport, exportConst, literal, printModule, templateLiteral, typeNode } from './typescript-ast';
+
+const factory = ts.factory;
+
+function jsxWithTitle(title: string): ts.Expression {
+  return factory.createParenthesizedExpression(factory.createJsxSelfClosingElement(
+    factory.createIdentifier('Card'),
+    undefined,
+    factory.createJsxAttributes([factory.createJsxAttribute(factory.createIdentifier('title'), factory.createStringLiteral(title))]),
+  ));
+}
+
+describe('printModule', () => {
+  test('keeps non-ASCII characters readable and escapes the rest', () => {
+    const output = printModule([exportConst('label', literal('Árvíztűrő "tükör"\n\u2028', true))]);
+
+    assert.equal(output, 'export const label = \'Árvíztűrő "tükör"\\n\\u2028\';');
+  });
+
+  test('leaves JSX attribute text as written', () => {
+    const output = printModule([exportConst('card', jsxWithTitle('Ünnep \\u00e9'))]);
+
+    assert.equal(output, 'export const card = (\n  <Card title="Ünnep \\u00e9" />\n);');
+  });
+
+  test('separates and formats top-level statements', () => {
+    const output = printModule([
+      defaultImport('React', 'react', true),
+      exportConst('offset', literal(-4), typeNode('number')),
+      exportConst('style', templateLiteral('a {\n  content: "`${x}`";\n}'), typeNode('React.CSSProperties')),
+    ]);
+
+    assert.equal(output, [
+      'import React from \'react\';',
+      '',
+      'export const offset: number = -4;',
+      '',
+      'export const style: React.CSSProperties = `a {\n  content: "\\`\\${x}\\`";\n}`;',
+    ].join('\n'));
+  });
+});
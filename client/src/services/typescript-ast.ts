@@ -0,0 +1,154 @@
+import ts from 'typescript';
+
+// TypeScript/TSX modulok előállítása szintaxisfából. A generátorok a factory API-val
+// építik fel az utasításokat, a literálok escape-elését a printer végzi, a behúzást
+// a nyelvi szolgáltatás formázója; így a tervből jövő szövegek és nevek sosem
+// törhetik el a kimenetet.
+
+const factory = ts.factory;
+
+const FILE_NAME = 'module.tsx';
+
+// A printer a nem ASCII karaktereket \u escape-ekként írja a szövegliterálokba; ezeket
+// a nyomtatás után az unescapeNonAscii állítja vissza
+const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+
+const FORMAT_SETTINGS: ts.FormatCodeSettings = {
+  ...ts.getDefaultFormatCodeSettings('\n'),
+  indentSize: 2,
+  tabSize: 2,
+  convertTabsToSpaces: true,
+};
+
+// A felső szintű utasítások üres sorral elválasztva, formázva
+export function printModule(statements: ts.Statement[]): string {
+  const sourceFile = ts.createSourceFile(FILE_NAME, '', ts.ScriptTarget.Latest, false, ts.ScriptKind.TSX);
+  const printed = statements
+    .map(statement => printer.printNode(ts.EmitHint.Unspecified, statement, sourceFile))
+    .join('\n\n');
+  return formatSource(breakJsxParentheses(unescapeNonAscii(printed)));
+}
+
+// Szöveg vagy szám kifejezésként; a negatív szám előjeles kifejezés a factory-ben
+export function literal(value: string | number, singleQuote = false): ts.Expression {
+  if (typeof value === 'string') return factory.createStringLiteral(value, singleQuote);
+  return value < 0
+    ? factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, factory.createNumericLiteral(-value))
+    : factory.createNumericLiteral(value);
+}
+
+// Sortöréseket megtartó template literál; a nyers szövegben a `, a ${ és a \ escape-elve
+export function templateLiteral(text: string): ts.NoSubstitutionTemplateLiteral {
+  const raw = text.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  return factory.createNoSubstitutionTemplateLiteral(text, raw);
+}
+
+// Típusnév típuscsomópontként: a primitívek kulcsszóként, a pontozott nevek minősítve
+export function typeNode(type: string): ts.TypeNode {
+  switch (type) {
+    case 'string': return factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword);
+    case 'number': return factory.createKeywordTypeNode(ts.SyntaxKind.NumberKeyword);
+    case 'boolean': return factory.createKeywordTypeNode(ts.SyntaxKind.BooleanKeyword);
+  }
+  const [first, ...rest] = type.split('.');
+  const name = rest.reduce<ts.EntityName>(
+    (left, right) => factory.createQualifiedName(left, right),
+    factory.createIdentifier(first),
+  );
+  return factory.createTypeReferenceNode(name);
+}
+
+export function exportModifiers(): ts.ModifierLike[] {
+  return [factory.createModifier(ts.SyntaxKind.ExportKeyword)];
+}
+
+// export const name: type = initializer;
+export function exportConst(name: string, initializer: ts.Expression, type?: ts.TypeNode): ts.VariableStatement {
+  return factory.createVariableStatement(
+    exportModifiers(),
+    factory.createVariableDeclarationList([factory.createVariableDeclaration(name, undefined, type, initializer)], ts.NodeFlags.Const),
+  );
+}
+
+// import name from 'module';
+export function defaultImport(name: string, module: string, singleQuote = false): ts.ImportDeclaration {
+  return factory.createImportDeclaration(
+    undefined,
+    factory.createImportClause(false, factory.createIdentifier(name), undefined),
+    factory.createStringLiteral(module, singleQuote),
+  );
+}
+
+// A TS formázó nem tör sort a zárójelezett JSX körül; a JSX a nyitó zárójel után és
+// a záró előtt új sort kap, a behúzást ezután a formázó adja
+function breakJsxParentheses(text: string): string {
+  const sourceFile = ts.createSourceFile(FILE_NAME, text, ts.ScriptTarget.Latest, false, ts.ScriptKind.TSX);
+  const breaks: number[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isParenthesizedExpression(node) && isJsx(node.expression)) {
+      breaks.push(node.expression.getStart(sourceFile), node.expression.end);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return breaks
+    .sort((a, b) => b - a)
+    .reduce((result, position) => `${result.slice(0, position)}\n${result.slice(position)}`, text);
+}
+
+// A szövegliterálok \uXXXX escape-jei helyén újra maga a karakter áll; a vezérlő- és
+// sorelválasztó karakterek escape-elve maradnak. A JSX attribútum szövege nem ismeri az
+// escape-et, és a printer sem escape-eli, ezért kimarad.
+function unescapeNonAscii(text: string): string {
+  const sourceFile = ts.createSourceFile(FILE_NAME, text, ts.ScriptTarget.Latest, false, ts.ScriptKind.TSX);
+  const literals: ts.StringLiteral[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isJsxAttribute(node) && node.initializer && ts.isStringLiteral(node.initializer)) return;
+    if (ts.isStringLiteral(node)) literals.push(node);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return literals.reverse().reduce((result, literal) => {
+    const start = literal.getStart(sourceFile);
+    const unescaped = result.slice(start, literal.end).replace(/\\(u[0-9A-Fa-f]{4}|[^])/g, (sequence, escape: string) => {
+      const code = escape.length === 5 ? parseInt(escape.slice(1), 16) : 0;
+      return code >= 0xa0 && code !== 0x2028 && code !== 0x2029 ? String.fromCharCode(code) : sequence;
+    });
+    return `${result.slice(0, start)}${unescaped}${result.slice(literal.end)}`;
+  }, text);
+}
+
+function isJsx(node: ts.Node): boolean {
+  return ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node);
+}
+
+// Egyetlen nyelvi szolgáltatás az összes modulhoz; formázáskor csak a szöveg és a verziója cserélődik
+let formatText = '';
+let formatVersion = 0;
+let languageService: ts.LanguageService | undefined;
+
+function formatSource(text: string): string {
+  formatText = text;
+  formatVersion++;
+  languageService ??= ts.createLanguageService({
+    getCompilationSettings: () => ({ jsx: ts.JsxEmit.Preserve }),
+    getScriptFileNames: () => [FILE_NAME],
+    getScriptVersion: () => String(formatVersion),
+    getScriptSnapshot: fileName => fileName === FILE_NAME ? ts.ScriptSnapshot.fromString(formatText) : undefined,
+    getCurrentDirectory: () => '/',
+    getDefaultLibFileName: () => 'lib.d.ts',
+    fileExists: fileName => fileName === FILE_NAME,
+    readFile: fileName => fileName === FILE_NAME ? formatText : undefined,
+  });
+  const edits = languageService.getFormattingEditsForDocument(FILE_NAME, FORMAT_SETTINGS);
+
+  // Hátulról alkalmazva a korábbi pozíciók érvényesek maradnak
+  return [...edits]
+    .sort((a, b) => b.span.start - a.span.start)
+    .reduce((result, edit) =>
+      `${result.slice(0, edit.span.start)}${edit.newText}${result.slice(edit.span.start + edit.span.length)}`, text);
+}
@@ -6,10 +6,29 @@ export interface Color {
   a?: number;
 }
 
+export interface Vector {
+  x: number;
+  y: number;
+}
+
+export interface ColorStop {
+  position: number;
+  color: Color;
+}
+
 export interface Paint {
   type: string;
+  visible?: boolean;
   color?: Color;
   opacity?: number;
+  // How the paint blends with the paints below it; NORMAL when missing
+  blendMode?: string;
+  // IMAGE fills only; resolved to a download URL by GET /v1/files/:key/images
+  imageRef?: string;
+  // GRADIENT_* fills only. Three handles in the node's normalized bounding box:
+  // the start (or center), the end, and the end of the perpendicular width axis
+  gradientHandlePositions?: Vector[];
+  gradientStops?: ColorStop[];
 }
 
 export interface TypeStyle {
@@ -23,14 +42,22 @@ export interface TypeStyle {
 }
 
 export interface Effect {
+  // INNER_SHADOW, DROP_SHADOW, LAYER_BLUR or BACKGROUND_BLUR
   type: string;
   visible?: boolean;
   radius?: number;
+  // Shadows only
   color?: Color;
-  offset?: {
-    x: number;
-    y: number;
-  };
+  blendMode?: string;
+  offset?: Vector;
+  spread?: number;
+  // DROP_SHADOW only: whether the shadow shows through translucent parts of the layer
+  showShadowBehindNode?: boolean;
+}
+
+export interface VectorPath {
+  path: string;
+  windingRule: 'NONZERO' | 'EVENODD';
 }
 
 export interface Constraints {
@@ -61,7 +88,16 @@ export type NodeType =
   | 'SLICE'
   | 'COMPONENT'
   | 'COMPONENT_SET'
-  | 'INSTANCE';
+  | 'INSTANCE'
+  | 'SECTION'
+  | 'SHAPE_WITH_TEXT'
+  | 'STICKY'
+  | 'CONNECTOR'
+  | 'TABLE'
+  | 'TABLE_CELL'
+  | 'EMBED'
+  | 'LINK_UNFURL'
+  | 'WIDGET';
 
 export interface FigmaNode {
   id: string;
@@ -70,7 +106,8 @@ export interface FigmaNode {
   children?: FigmaNode[];
   
   // Layout properties
-  absoluteBoundingBox?: AbsoluteBoundingBox;
+  // null for nodes Figma can't measure (e.g. empty groups)
+  absoluteBoundingBox?: AbsoluteBoundingBox | null;
   constraints?: Constraints;
   layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL';
   itemSpacing?: number;
@@ -78,15 +115,48 @@ export interface FigmaNode {
   paddingRight?: number;
   paddingTop?: number;
   paddingBottom?: number;
+  primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
   
   // Visual properties
   fills?: Paint[];
   strokes?: Paint[];
   strokeWeight?: number;
+  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  // Only present when the sides of a frame or rectangle have different weights
+  individualStrokeWeights?: {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+  };
+  // Alternating dash and gap lengths; a solid stroke when missing
+  strokeDashes?: number[];
+  strokeCap?: string;
+  strokeJoin?: string;
   cornerRadius?: number;
+  // Top-left, top-right, bottom-right, bottom-left; only present when the corners differ
+  rectangleCornerRadii?: [number, number, number, number];
+  // 0–1, the amount of iOS-style continuous curvature on rounded corners
+  cornerSmoothing?: number;
+  // Ellipse sweep in radians, clockwise from the positive x axis, and the hole as a ratio
+  arcData?: {
+    startingAngle: number;
+    endingAngle: number;
+    innerRadius: number;
+  };
+  // Star and polygon parameters; only plugin exports carry them, the REST API
+  // describes these shapes through fillGeometry alone
+  pointCount?: number;
+  innerRadius?: number;
   backgroundColor?: Color;
   opacity?: number;
+  // How the layer blends with what is behind it; PASS_THROUGH when missing
+  blendMode?: string;
   effects?: Effect[];
+  // Only present when the file is requested with geometry=paths
+  fillGeometry?: VectorPath[];
+  strokeGeometry?: VectorPath[];
   
   // Text properties
   characters?: string;
@@ -121,9 +191,122 @@ export interface FigmaApiResponse {
   name: string;
   lastModified: string;
   version: string;
-  role: string;
-  editorType: string;
-  linkAccess: string;
+  role?: string;
+  editorType?: string;
+  linkAccess?: string;
+}
+
+// GET /v1/files/:key/nodes — null for ids that don't exist in the file
+export interface FigmaFileNodesResponse {
+  name: string;
+  lastModified: string;
+  version: string;
+  nodes: Record<string, {
+    document: FigmaNode;
+    components: Record<string, FigmaComponent>;
+    styles: Record<string, FigmaStyle>;
+  } | null>;
+}
+
+// GET /v1/images/:key — null for nodes that could not be rendered
+export interface FigmaImagesResponse {
+  err: string | null;
+  images: Record<string, string | null>;
+}
+
+// GET /v1/files/:key/images — download URLs for every image fill, by imageRef
+export interface FigmaImageFillsResponse {
+  meta: {
+    images: Record<string, string>;
+  };
+}
+
+export interface FigmaUser {
+  id: string;
+  handle: string;
+  img_url: string;
+  email?: string;
+}
+
+export interface FigmaComment {
+  id: string;
+  file_key: string;
+  parent_id?: string;
+  user: FigmaUser;
+  created_at: string;
+  resolved_at: string | null;
+  message: string;
+  order_id?: string | null;
+}
+
+export interface FigmaVersion {
+  id: string;
+  created_at: string;
+  label: string | null;
+  description: string | null;
+  user: FigmaUser;
+}
+
+export interface FigmaVersionsResponse {
+  versions: FigmaVersion[];
+  pagination?: {
+    prev_page?: string;
+    next_page?: string;
+  };
+}
+
+// Library metadata of published components and styles (/components, /styles endpoints)
+export interface FigmaPublishedComponent {
+  key: string;
+  file_key: string;
+  node_id: string;
+  name: string;
+  description: string;
+  thumbnail_url?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FigmaPublishedStyle {
+  key: string;
+  file_key: string;
+  node_id: string;
+  style_type: FigmaStyle['styleType'];
+  name: string;
+  description: string;
+  thumbnail_url?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FigmaVariable {
+  id: string;
+  name: string;
+  key: string;
+  variableCollectionId: string;
+  resolvedType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  valuesByMode: Record<string, unknown>;
+  description?: string;
+  hiddenFromPublishing?: boolean;
+  scopes?: string[];
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  key: string;
+  modes: Array<{ modeId: string; name: string }>;
+  defaultModeId: string;
+  variableIds: string[];
+  hiddenFromPublishing?: boolean;
+}
+
+// GET /v1/files/:key/variables/local (and /published, which has the same shape)
+export interface FigmaVariablesResponse {
+  meta: {
+    variables: Record<string, FigmaVariable>;
+    variableCollections: Record<string, FigmaVariableCollection>;
+  };
 }
 
 // Generated component types
@@ -155,6 +338,8 @@ export interface ComponentMetadata {
   estimatedAccuracy: number;
   generationTime: number;
   dependencies: string[];
+  // Design details the generated code can only approximate
+  fidelityNotes: string[];
 }
 
 export interface GeneratedComponent {
@@ -162,6 +347,7 @@ export interface GeneratedComponent {
   name: string;
   jsx: string;
   css: string;
+  template?: string;
   tailwind?: string;
   typescript?: string;
   accessibility: AccessibilityReport;
@@ -172,7 +358,7 @@ export interface GeneratedComponent {
 export interface ProcessingPhase {
   id: number;
   name: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'cancelled';
   progress: number;
   error?: string;
 }
\ No newline at end of file
@@ -131,3 +131,17 @@ export function validateFigmaApiKey(apiKey: string): boolean {
   // Accept both figd_ tokens and legacy tokens
   return apiKey.startsWith('figd_') || (apiKey.length >= 40 && /^[a-zA-Z0-9-]+$/.test(apiKey));
 }
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// apiRequest errors look like `401: {"error":"..."}`; this keeps just the message
+export function describeApiError(error: Error): string {
+  const body = error.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
@@ -0,0 +1,182 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+import { isUniqueViolation, storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const credentialsSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8).max(200),
+});
+
+// Stored as `<hash>.<salt>`, both hex
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Never send the password hash to the browser
+function publicUser({ password: _password, ...user }: SelectUser) {
+  return user;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // Sessions won't survive a restart, which is fine for local development
+  console.warn("SESSION_SECRET is not set; using a random secret for this process");
+  return randomBytes(32).toString("hex");
+}
+
+// How many reverse proxies in front of the app may set X-Forwarded-*. Production runs
+// behind one, and secure cookies depend on believing it; anywhere else those headers
+// could come straight from the client. TRUST_PROXY overrides either default.
+function trustedProxyHops(app: Express): number {
+  if (process.env.TRUST_PROXY !== undefined) return Number(process.env.TRUST_PROXY) || 0;
+  return app.get("env") === "production" ? 1 : 0;
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Authentication required" });
+  }
+
+  next();
+};
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  const proxyHops = trustedProxyHops(app);
+  if (proxyHops > 0) {
+    app.set("trust proxy", proxyHops);
+  }
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    const parsed = credentialsSchema.safeParse(req.body);
+
+    if (!parsed.success) {
+      return res.status(400).json({ error: fromZodError(parsed.error).message });
+    }
+
+    try {
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username: parsed.data.username,
+        password: await hashPassword(parsed.data.password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(publicUser(user));
+      });
+    } catch (error) {
+      // A concurrent sign-up took the name between the check and the insert
+      if (isUniqueViolation(error)) {
+        return res.status(409).json({ error: "Username already exists" });
+      }
+
+      console.error("Registration error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(publicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    res.json(publicUser(req.user));
+  });
+}
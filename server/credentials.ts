@@ -0,0 +1,95 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { ApiCredential, PublicApiCredential } from "@shared/schema";
+import { storage } from "./storage";
+
+// Tokens are sealed with AES-256-GCM and stored as `v1:<iv>:<tag>:<ciphertext>` (base64 parts)
+const ALGORITHM = "aes-256-gcm";
+const FORMAT_VERSION = "v1";
+
+export class CredentialError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "CredentialError";
+  }
+}
+
+let cachedKey: Buffer | undefined;
+
+// Any string works as CREDENTIALS_KEY; it is stretched to 32 bytes with SHA-256
+function encryptionKey(): Buffer {
+  if (cachedKey) return cachedKey;
+
+  if (process.env.CREDENTIALS_KEY) {
+    cachedKey = createHash("sha256").update(process.env.CREDENTIALS_KEY).digest();
+  } else if (process.env.NODE_ENV === "production") {
+    throw new Error("CREDENTIALS_KEY must be set in production");
+  } else {
+    // Stored tokens become unreadable after a restart, which is fine for local development
+    console.warn("CREDENTIALS_KEY is not set; using a random key for this process");
+    cachedKey = randomBytes(32);
+  }
+
+  return cachedKey;
+}
+
+// Run once at startup, so a production deploy without a key fails before serving requests
+export function ensureCredentialsKey(): void {
+  encryptionKey();
+}
+
+export function encryptToken(token: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+export function decryptToken(sealed: string): string {
+  const [version, iv, tag, ciphertext] = sealed.split(":");
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognised credential format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+// Enough to tell tokens apart in a list without revealing them
+export function tokenHint(token: string): string {
+  return `…${token.slice(-4)}`;
+}
+
+export function publicCredential({ encryptedToken: _encryptedToken, ...credential }: ApiCredential): PublicApiCredential {
+  return credential;
+}
+
+// Other users' and revoked credentials are reported as missing
+export async function findActiveCredential(userId: number, id: number): Promise<ApiCredential | undefined> {
+  const credential = await storage.getCredential(id);
+  return credential?.userId === userId && !credential.revokedAt ? credential : undefined;
+}
+
+// Decrypts the token for one outgoing Figma call and records when it was used
+export async function credentialToken(userId: number, id: number): Promise<string> {
+  const credential = await findActiveCredential(userId, id);
+  if (!credential) {
+    throw new CredentialError(404, "Credential not found");
+  }
+
+  let token: string;
+  try {
+    token = decryptToken(credential.encryptedToken);
+  } catch {
+    throw new CredentialError(409, "Stored token can no longer be decrypted; rotate it");
+  }
+
+  await storage.updateCredential(credential.id, { lastUsedAt: new Date() });
+  return token;
+}
@@ -0,0 +1,91 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { fetchFigmaFile, fetchFigmaFileMeta } from "./figma";
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Figma keys and versions are plain identifiers; anything else is simply not cached
+const SAFE_SEGMENT = /^[\w-]+$/;
+
+export type CacheStatus = "hit" | "miss";
+
+// Full file documents on disk, one JSON file per `fileKey` and `version`:
+// `<dir>/<fileKey>/<version>.json`. Entries older than the TTL count as missing.
+export class FigmaFileCache {
+  constructor(private dir: string, private ttlMs: number) {}
+
+  async get(fileKey: string, version: string): Promise<Record<string, unknown> | undefined> {
+    const file = this.entryPath(fileKey, version);
+    if (!file) return undefined;
+
+    try {
+      const stat = await fs.stat(file);
+      if (Date.now() - stat.mtimeMs > this.ttlMs) {
+        await fs.rm(file, { force: true });
+        return undefined;
+      }
+      return JSON.parse(await fs.readFile(file, "utf8"));
+    } catch {
+      // Missing or half-written entries are just misses
+      return undefined;
+    }
+  }
+
+  async set(fileKey: string, version: string, data: Record<string, unknown>) {
+    const file = this.entryPath(fileKey, version);
+    if (!file) return;
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write-then-rename so concurrent readers never see a partial document
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data));
+    await fs.rename(temp, file);
+  }
+
+  // Drops every cached version of the file; returns how many were removed
+  async invalidate(fileKey: string): Promise<number> {
+    if (!SAFE_SEGMENT.test(fileKey)) return 0;
+
+    const folder = path.join(this.dir, fileKey);
+    const entries = await fs.readdir(folder).catch(() => [] as string[]);
+    await fs.rm(folder, { recursive: true, force: true });
+    return entries.filter((entry) => entry.endsWith(".json")).length;
+  }
+
+  private entryPath(fileKey: string, version: string): string | undefined {
+    if (!SAFE_SEGMENT.test(fileKey) || !SAFE_SEGMENT.test(version)) return undefined;
+    return path.join(this.dir, fileKey, `${version}.json`);
+  }
+}
+
+export const figmaCache = new FigmaFileCache(
+  process.env.FIGMA_CACHE_DIR ?? path.join(os.tmpdir(), "figma-to-code-cache"),
+  Number(process.env.FIGMA_CACHE_TTL_MS) || DEFAULT_TTL_MS,
+);
+
+// Asks Figma for the file's current version with a shallow request first and
+// downloads the full document only when that version isn't cached yet. The
+// version check always runs with the caller's token, so the cache never hands
+// a file to someone Figma would refuse it to.
+export async function getFigmaFile(
+  fileKey: string,
+  token: string,
+  signal?: AbortSignal,
+): Promise<{ data: Record<string, unknown>; cache: CacheStatus }> {
+  const { version } = await fetchFigmaFileMeta(fileKey, token, signal);
+
+  const cached = await figmaCache.get(fileKey, version);
+  if (cached) {
+    return { data: cached, cache: "hit" };
+  }
+
+  const data = await fetchFigmaFile(fileKey, token, signal);
+  // The file may have changed between the two requests; key it by what we actually got
+  const fetchedVersion = typeof data.version === "string" ? data.version : version;
+  await figmaCache.set(fileKey, fetchedVersion, data).catch((error) => {
+    console.error(`Could not cache Figma file ${fileKey}:`, error);
+  });
+
+  return { data, cache: "miss" };
+}
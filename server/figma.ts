@@ -0,0 +1,53 @@
+import { FigmaApiClient, FigmaApiError, FigmaResponseError } from "../client/src/services/figma-api";
+import type { FigmaUser } from "../client/src/types/types";
+
+// A non-2xx answer from Figma; `status` is passed through to our own clients
+export class FigmaRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "FigmaRequestError";
+  }
+}
+
+export interface FigmaFileMeta {
+  name: string;
+  version: string;
+  lastModified: string;
+}
+
+// All server-side Figma traffic goes through the shared client, so retries,
+// backoff, request coalescing and the concurrency cap apply across users.
+async function withFigma<T>(token: string, call: (client: FigmaApiClient) => Promise<T>): Promise<T> {
+  try {
+    return await call(new FigmaApiClient(token));
+  } catch (error) {
+    if (error instanceof FigmaApiError) {
+      throw error.status === 0
+        ? new FigmaRequestError(502, "Could not reach the Figma API")
+        : new FigmaRequestError(error.status, error.message);
+    }
+    if (error instanceof FigmaResponseError) {
+      throw new FigmaRequestError(502, error.message);
+    }
+    throw error;
+  }
+}
+
+export function fetchFigmaFile(fileKey: string, token: string, signal?: AbortSignal) {
+  return withFigma(token, async (client) =>
+    (await client.getFile(fileKey, { signal })) as unknown as Record<string, unknown>,
+  );
+}
+
+// Only the top of the tree, which is enough to learn the current `version`
+export function fetchFigmaFileMeta(fileKey: string, token: string, signal?: AbortSignal): Promise<FigmaFileMeta> {
+  return withFigma(token, async (client) => {
+    const { name, version, lastModified } = await client.getFile(fileKey, { depth: 1, signal });
+    return { name, version, lastModified };
+  });
+}
+
+// The cheapest authenticated call, used to check that a token still works
+export function fetchFigmaUser(token: string, signal?: AbortSignal): Promise<FigmaUser> {
+  return withFigma(token, (client) => client.getMe({ signal }));
+}
@@ -0,0 +1,39 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { emittedFiles, resolveOptions, type GenerationResult } from "./generation";
+import type { GeneratedComponent } from "../client/src/types/types";
+
+function component(id: string, name: string): GeneratedComponent {
+  return {
+    id,
+    name,
+    jsx: `export const ${name} = () => null;`,
+    css: "",
+    accessibility: { score: 100, issues: [], suggestions: [], wcagCompliance: "AA" },
+    responsive: { mobile: "", tablet: "", desktop: "" },
+    metadata: { figmaNodeId: id, componentType: "component", complexity: "simple", estimatedAccuracy: 100, generationTime: 0, dependencies: [] },
+  } as unknown as GeneratedComponent;
+}
+
+describe("emittedFiles", () => {
+  test("numbers the folders of same-named components", () => {
+    const result = {
+      options: resolveOptions({ framework: "react", styling: "plain-css", typescript: true }),
+      components: [component("1:1", "Item"), component("1:2", "Item"), component("1:3", "item"), component("1:4", "Card")],
+    } as GenerationResult;
+
+    const paths = emittedFiles(result).map((file) => file.path);
+
+    assert.deepEqual(paths, [
+      "Item/Item.tsx",
+      "Item/Item.css",
+      "Item-2/Item.tsx",
+      "Item-2/Item.css",
+      "item-3/item.tsx",
+      "item-3/item.css",
+      "Card/Card.tsx",
+      "Card/Card.css",
+    ]);
+    assert.equal(new Set(paths).size, paths.length);
+  });
+});
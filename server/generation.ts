@@ -0,0 +1,258 @@
+import { z } from "zod";
+import {
+  AdvancedCodeGenerator,
+  angularFileName,
+  customElementName,
+  dartFileName,
+  type CodeGenerationOptions,
+  type CustomCodeInputs,
+} from "../client/src/services/advanced-code-generator";
+import { figmaFileSchema } from "../client/src/services/figma-schemas";
+import type {
+  AccessibilityReport,
+  FigmaApiResponse,
+  FigmaNode,
+  GeneratedComponent,
+} from "../client/src/types/types";
+
+export const defaultGenerationOptions: CodeGenerationOptions = {
+  framework: "react",
+  styling: "tailwind",
+  typescript: true,
+  accessibility: true,
+  responsive: true,
+  optimizeImages: true,
+};
+
+export const generationOptionsSchema = z.object({
+  framework: z.enum([
+    "react",
+    "vue",
+    "html",
+    "svelte",
+    "angular",
+    "react-native",
+    "flutter",
+    "swiftui",
+    "compose",
+    "web-components",
+  ]),
+  styling: z.enum(["tailwind", "css-modules", "styled-components", "plain-css"]),
+  typescript: z.boolean(),
+  accessibility: z.boolean(),
+  responsive: z.boolean(),
+  optimizeImages: z.boolean(),
+}).partial();
+
+export const generateRequestSchema = z.object({
+  // Malformed documents are rejected here with the path of the first bad value
+  figmaData: figmaFileSchema,
+  fileKey: z.string().optional(),
+  projectId: z.number().int().optional(),
+  options: generationOptionsSchema.optional(),
+  customJsx: z.string().optional(),
+  customCss: z.string().optional(),
+  fullCss: z.string().optional(),
+});
+
+export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+
+// Instead of posting the document, a request may name the file and a stored token to fetch it with
+export const figmaSourceSchema = z.object({
+  fileKey: z.string().min(1),
+  credentialId: z.number().int(),
+});
+
+// Project runs may instead name one of the project's stored snapshots
+export const snapshotSourceSchema = z.object({
+  snapshotId: z.number().int().positive(),
+});
+
+export interface FigmaInfo {
+  name: string;
+  lastModified: string;
+  version: string;
+  nodeCount: number;
+  fileKey: string;
+}
+
+export interface QualitySummary {
+  accessibilityScore: number;
+  estimatedAccuracy: number;
+  wcagCompliance: AccessibilityReport["wcagCompliance"];
+  issueCount: number;
+}
+
+export interface GenerationResult {
+  figmaInfo: FigmaInfo;
+  options: CodeGenerationOptions;
+  components: GeneratedComponent[];
+  quality: QualitySummary;
+  runId?: number;
+}
+
+export interface EmittedFile {
+  componentId: string;
+  componentName: string;
+  path: string;
+  content: string;
+}
+
+export function resolveOptions(options?: Partial<CodeGenerationOptions>): CodeGenerationOptions {
+  return { ...defaultGenerationOptions, ...options };
+}
+
+export function toCustomCode(request: GenerateRequest): CustomCodeInputs {
+  return {
+    jsx: request.customJsx ?? "",
+    css: request.customCss ?? "",
+    cssAdvanced: request.fullCss ?? "",
+  };
+}
+
+export function describeFigmaFile(figmaData: FigmaApiResponse, fileKey?: string): FigmaInfo {
+  return {
+    name: figmaData.name,
+    lastModified: figmaData.lastModified,
+    version: figmaData.version,
+    nodeCount: countNodes(figmaData.document),
+    fileKey: fileKey ?? "",
+  };
+}
+
+// Runs the same node-walking generator the browser uses and returns one
+// component per Figma component (or per top-level frame when there are none).
+export function generateCode(request: GenerateRequest): GenerationResult {
+  const figmaData = request.figmaData as unknown as FigmaApiResponse;
+  const options = resolveOptions(request.options);
+
+  const generator = new AdvancedCodeGenerator(figmaData, options);
+  generator.setCustomCode(toCustomCode(request));
+
+  const components = generator.generateComponents();
+
+  return {
+    figmaInfo: describeFigmaFile(figmaData, request.fileKey),
+    options,
+    components,
+    quality: assessQuality(components),
+  };
+}
+
+// The figures one component contributes to the run's summary
+export interface ComponentQuality {
+  accessibilityScore: number;
+  estimatedAccuracy: number;
+  issueCount: number;
+}
+
+export function assessComponent(component: GeneratedComponent): ComponentQuality {
+  return {
+    accessibilityScore: component.accessibility.score,
+    estimatedAccuracy: component.metadata.estimatedAccuracy,
+    issueCount: component.accessibility.issues.length,
+  };
+}
+
+// Rolls the per-component reports up into one score for the whole run.
+export function summarizeQuality(assessments: ComponentQuality[]): QualitySummary {
+  if (assessments.length === 0) {
+    return { accessibilityScore: 0, estimatedAccuracy: 0, wcagCompliance: "Non-compliant", issueCount: 0 };
+  }
+
+  const average = (values: number[]) =>
+    Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+
+  const accessibilityScore = average(assessments.map((a) => a.accessibilityScore));
+
+  return {
+    accessibilityScore,
+    estimatedAccuracy: average(assessments.map((a) => a.estimatedAccuracy)),
+    wcagCompliance: accessibilityScore >= 80 ? "AA" : accessibilityScore >= 60 ? "A" : "Non-compliant",
+    issueCount: assessments.reduce((sum, a) => sum + a.issueCount, 0),
+  };
+}
+
+export function assessQuality(components: GeneratedComponent[]): QualitySummary {
+  return summarizeQuality(components.map(assessComponent));
+}
+
+// The files a run hands to the user, one folder per component.
+export function emittedFiles(result: GenerationResult): EmittedFile[] {
+  const { framework, styling, typescript } = result.options;
+  const sourceExtension =
+    framework === "vue" || framework === "svelte" ? framework : typescript ? "tsx" : "jsx";
+  const styleExtension = styling === "styled-components" ? (typescript ? "styles.ts" : "styles.js") : "css";
+
+  // Same-named components (three frames called "Item") get numbered folders, so their
+  // files don't overwrite each other; case-insensitive file systems count too
+  const folders = new Set<string>();
+  const folderFor = (name: string) => {
+    let folder = name;
+    for (let suffix = 2; folders.has(folder.toLowerCase()); suffix++) folder = `${name}-${suffix}`;
+    folders.add(folder.toLowerCase());
+    return folder;
+  };
+
+  return result.components.flatMap((component) => {
+    const folder = folderFor(component.name);
+    const file = (fileName: string, content: string): EmittedFile => ({
+      componentId: component.id,
+      componentName: component.name,
+      path: `${folder}/${fileName}`,
+      content,
+    });
+    const named = (extension: string) => `${component.name}.${extension}`;
+
+    // A standalone page; index.html links the stylesheet by the component's name
+    if (framework === "html") {
+      return [file("index.html", component.jsx), file(named("css"), component.css)];
+    }
+
+    // Class, external template and stylesheet, named the way the Angular CLI names them
+    if (framework === "angular") {
+      const base = `${angularFileName(component.name)}.component`;
+      return [
+        file(`${base}.ts`, component.jsx),
+        file(`${base}.html`, component.template ?? ""),
+        file(`${base}.${styling === "plain-css" ? "css" : "scss"}`, component.css),
+      ];
+    }
+
+    // One widget per Dart file; styling lives in the widget tree itself
+    if (framework === "flutter") {
+      return [file(`${dartFileName(component.name)}.dart`, component.jsx)];
+    }
+
+    // Lit elements keep their styles in `static styles` and are named after their tag
+    if (framework === "web-components") {
+      return [file(`${customElementName(component.name)}.${typescript ? "ts" : "js"}`, component.jsx)];
+    }
+
+    // SwiftUI views and composables are single source files as well
+    if (framework === "swiftui" || framework === "compose") {
+      return [file(named(framework === "swiftui" ? "swift" : "kt"), component.jsx)];
+    }
+
+    const files = [file(named(sourceExtension), component.jsx)];
+    // Vue and Svelte components carry their own <style> block, React Native its StyleSheet
+    if (framework !== "vue" && framework !== "svelte" && framework !== "react-native") {
+      files.push(file(named(styleExtension), component.css));
+    }
+    if (component.typescript) {
+      files.push(file(named("types.ts"), component.typescript));
+    }
+    return files;
+  });
+}
+
+export function countNodes(node: FigmaNode | undefined): number {
+  if (!node) return 0;
+
+  let count = 1;
+  if (node.children) {
+    count += node.children.reduce((sum, child) => sum + countNodes(child), 0);
+  }
+
+  return count;
+}
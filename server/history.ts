@@ -0,0 +1,38 @@
+import type { GenerationRunWithArtifacts } from "@shared/schema";
+import { storage } from "./storage";
+import { emittedFiles, type GenerateRequest, type GenerationResult } from "./generation";
+
+// Stores a finished generation under a project: the Figma file at that
+// version (shared between runs of the same version) plus every emitted file.
+export async function recordRun(
+  projectId: number,
+  request: GenerateRequest,
+  result: GenerationResult,
+): Promise<GenerationRunWithArtifacts> {
+  const { fileKey, version, name, lastModified, nodeCount } = result.figmaInfo;
+
+  const snapshot =
+    (await storage.findSnapshot(projectId, fileKey, version)) ??
+    (await storage.createSnapshot({
+      projectId,
+      fileKey,
+      version,
+      name,
+      lastModified,
+      nodeCount,
+      data: request.figmaData,
+    }));
+
+  return storage.createRun(
+    {
+      projectId,
+      snapshotId: snapshot.id,
+      fileKey,
+      version,
+      options: { ...result.options },
+      quality: { ...result.quality },
+      componentCount: result.components.length,
+    },
+    emittedFiles(result),
+  );
+}
@@ -0,0 +1,276 @@
+import { EventEmitter } from "events";
+import { nanoid } from "nanoid";
+import {
+  JOB_PHASES,
+  type JobPhase,
+  type JobSnapshot,
+  type JobStatus,
+  type JobStreamEvent,
+  type PhaseEvent,
+} from "@shared/jobs";
+import { AdvancedCodeGenerator } from "../client/src/services/advanced-code-generator";
+import type { FigmaApiResponse, FigmaNode, GeneratedComponent } from "../client/src/types/types";
+import {
+  assessComponent,
+  describeFigmaFile,
+  resolveOptions,
+  summarizeQuality,
+  toCustomCode,
+  type ComponentQuality,
+  type GenerateRequest,
+  type GenerationResult,
+} from "./generation";
+import { recordRun } from "./history";
+
+// finished jobs stay readable for a while so late subscribers still get the result
+const JOB_RETENTION_MS = 10 * 60 * 1000;
+
+type GenerationEvent = JobStreamEvent<GenerationResult>;
+
+interface Job {
+  id: string;
+  userId: number;
+  status: JobStatus;
+  phases: JobPhase[];
+  log: GenerationEvent[];
+  emitter: EventEmitter;
+  result?: GenerationResult;
+  error?: string;
+  cancelRequested: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Lets the event loop breathe between nodes so large files don't block other requests.
+const yieldToEventLoop = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+class JobCancelledError extends Error {
+  constructor() {
+    super("Job cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+const isFinished = (job: Job) =>
+  job.status === "completed" || job.status === "error" || job.status === "cancelled";
+
+export class JobManager {
+  private jobs: Map<string, Job>;
+
+  constructor() {
+    this.jobs = new Map();
+  }
+
+  create(request: GenerateRequest, userId: number): JobSnapshot<GenerationResult> {
+    const now = new Date();
+    const job: Job = {
+      id: nanoid(),
+      userId,
+      status: "queued",
+      phases: JOB_PHASES.map((phase) => ({ ...phase, status: "pending", progress: 0 })),
+      log: [],
+      emitter: new EventEmitter(),
+      cancelRequested: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.jobs.set(job.id, job);
+    setImmediate(() => this.run(job, request));
+
+    return this.snapshot(job);
+  }
+
+  get(id: string, userId: number): JobSnapshot<GenerationResult> | undefined {
+    const job = this.find(id, userId);
+    return job && this.snapshot(job);
+  }
+
+  // Replays everything emitted so far, then follows the live stream.
+  subscribe(id: string, userId: number, listener: (event: GenerationEvent) => void): (() => void) | undefined {
+    const job = this.find(id, userId);
+    if (!job) return undefined;
+
+    job.log.forEach(listener);
+    if (isFinished(job)) {
+      return () => {};
+    }
+
+    job.emitter.on("event", listener);
+    return () => {
+      job.emitter.off("event", listener);
+    };
+  }
+
+  // The running job stops at its next checkpoint; finished jobs are left untouched.
+  cancel(id: string, userId: number): JobSnapshot<GenerationResult> | undefined {
+    const job = this.find(id, userId);
+    if (!job) return undefined;
+
+    if (!isFinished(job)) {
+      job.cancelRequested = true;
+    }
+
+    return this.snapshot(job);
+  }
+
+  // Other users' jobs look exactly like missing ones
+  private find(id: string, userId: number): Job | undefined {
+    const job = this.jobs.get(id);
+    return job?.userId === userId ? job : undefined;
+  }
+
+  private async run(job: Job, request: GenerateRequest) {
+    let currentPhase = 1;
+    const checkpoint = async () => {
+      await yieldToEventLoop();
+      if (job.cancelRequested) throw new JobCancelledError();
+    };
+
+    try {
+      await checkpoint();
+      job.status = "running";
+      const figmaData = request.figmaData as unknown as FigmaApiResponse;
+
+      // Phase 1: walk the document once so progress is measured in real nodes
+      currentPhase = 1;
+      this.phase(job, { type: "start", phaseId: 1 });
+      const nodes = flattenNodes(figmaData.document);
+      for (let index = 0; index < nodes.length; index++) {
+        this.nodeProgress(job, 1, nodes[index], index, nodes.length);
+        if (index % 200 === 0) await checkpoint();
+      }
+      this.phase(job, { type: "complete", phaseId: 1 });
+
+      // Phase 2: one generated component per target node
+      currentPhase = 2;
+      this.phase(job, { type: "start", phaseId: 2 });
+      const options = resolveOptions(request.options);
+      const generator = new AdvancedCodeGenerator(figmaData, options);
+      generator.setCustomCode(toCustomCode(request));
+
+      const targets = generator.findGenerationTargets();
+      const components: GeneratedComponent[] = [];
+      for (let index = 0; index < targets.length; index++) {
+        await checkpoint();
+        components.push(generator.generateComponent(targets[index]));
+        this.nodeProgress(job, 2, targets[index].node, index, targets.length, true);
+      }
+      this.phase(job, { type: "complete", phaseId: 2 });
+
+      // Phase 3: assess each component, then roll the reports up
+      currentPhase = 3;
+      this.phase(job, { type: "start", phaseId: 3 });
+      const assessments: ComponentQuality[] = [];
+      for (let index = 0; index < components.length; index++) {
+        await checkpoint();
+        assessments.push(assessComponent(components[index]));
+        this.nodeProgress(job, 3, components[index], index, components.length, true);
+      }
+      const quality = summarizeQuality(assessments);
+      this.phase(job, { type: "complete", phaseId: 3 });
+
+      const result: GenerationResult = {
+        figmaInfo: describeFigmaFile(figmaData, request.fileKey),
+        options,
+        components,
+        quality,
+      };
+      if (request.projectId !== undefined) {
+        const run = await recordRun(request.projectId, request, result);
+        result.runId = run.id;
+      }
+
+      job.result = result;
+      job.status = "completed";
+      this.emit(job, { type: "result", data: job.result });
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        job.status = "cancelled";
+        this.phase(job, { type: "cancel", phaseId: currentPhase });
+        this.emit(job, { type: "cancelled", data: {} });
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : "Code generation failed";
+      console.error(`Generation job ${job.id} failed:`, error);
+
+      job.error = message;
+      job.status = "error";
+      this.phase(job, { type: "error", phaseId: currentPhase, payload: { error: message } });
+      this.emit(job, { type: "failed", data: { error: message } });
+    } finally {
+      job.emitter.removeAllListeners();
+      setTimeout(() => this.jobs.delete(job.id), JOB_RETENTION_MS).unref();
+    }
+  }
+
+  // Emits a progress event for the node; without `always`, only when the
+  // rounded percentage moves, which keeps huge documents from flooding the stream.
+  private nodeProgress(job: Job, phaseId: number, node: Pick<FigmaNode, "id" | "name">, index: number, total: number, always = false) {
+    const progress = Math.floor(((index + 1) / total) * 100);
+    const phase = job.phases.find((p) => p.id === phaseId);
+    if (!always && phase && phase.progress === progress) return;
+
+    this.phase(job, {
+      type: "progress",
+      phaseId,
+      payload: { progress },
+      node: { id: node.id, name: node.name, index, total },
+    });
+  }
+
+  private phase(job: Job, event: PhaseEvent) {
+    job.phases = job.phases.map((phase) => {
+      if (phase.id !== event.phaseId) return phase;
+
+      switch (event.type) {
+        case "start":
+          return { ...phase, status: "processing", progress: 0 };
+        case "progress":
+          return { ...phase, progress: event.payload?.progress ?? phase.progress };
+        case "complete":
+          return { ...phase, status: "completed", progress: 100 };
+        case "error":
+          return { ...phase, status: "error", error: event.payload?.error };
+        case "cancel":
+          return { ...phase, status: "cancelled" };
+      }
+    });
+
+    this.emit(job, { type: "phase", data: event });
+  }
+
+  private emit(job: Job, event: GenerationEvent) {
+    job.updatedAt = new Date();
+    job.log.push(event);
+    job.emitter.emit("event", event);
+  }
+
+  private snapshot(job: Job): JobSnapshot<GenerationResult> {
+    return {
+      id: job.id,
+      status: job.status,
+      phases: job.phases,
+      result: job.result,
+      error: job.error,
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString(),
+    };
+  }
+}
+
+function flattenNodes(root: FigmaNode | undefined): FigmaNode[] {
+  const nodes: FigmaNode[] = [];
+  const stack = root ? [root] : [];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    nodes.push(node);
+    if (node.children) stack.push(...node.children);
+  }
+
+  return nodes;
+}
+
+export const jobs = new JobManager();
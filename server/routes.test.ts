@@ -0,0 +1,151 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { randomBytes } from "crypto";
+import express from "express";
+import { registerRoutes } from "./routes";
+
+// Resources of one account must look missing to every other account
+describe("ownership scoping", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  const figmaData = {
+    name: "Landing",
+    lastModified: "2024-01-01T00:00:00Z",
+    version: "1",
+    components: { "1:1": { key: "card", name: "Card", description: "" } },
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      children: [{
+        id: "0:1",
+        name: "Page",
+        type: "CANVAS",
+        children: [{ id: "1:1", name: "Card", type: "COMPONENT", absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 50 } }],
+      }],
+    },
+  };
+
+  // Registers a fresh account and sends its session cookie with every request
+  async function signUp() {
+    const response = await fetch(`${baseUrl}/api/register`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ username: `user-${randomBytes(6).toString("hex")}`, password: "correct horse" }),
+    });
+    assert.equal(response.status, 201);
+    const cookie = response.headers.get("set-cookie")!.split(";")[0];
+
+    return async (method: string, path: string, body?: unknown) => {
+      const res = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: { Cookie: cookie, ...(body !== undefined && { "Content-Type": "application/json" }) },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await res.text();
+      return { status: res.status, body: text ? JSON.parse(text) : undefined };
+    };
+  }
+
+  before(async () => {
+    const app = express();
+    app.use(express.json({ limit: "50mb" }));
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  test("requires a session", async () => {
+    const response = await fetch(`${baseUrl}/api/projects`);
+    assert.equal(response.status, 401);
+  });
+
+  test("answers concurrent sign-ups for one name with a single account", async () => {
+    const username = `user-${randomBytes(6).toString("hex")}`;
+    const register = () =>
+      fetch(`${baseUrl}/api/register`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password: "correct horse" }),
+      }).then((response) => response.status);
+
+    assert.deepEqual((await Promise.all([register(), register()])).sort(), [201, 409]);
+  });
+
+  test("rejects ids that are not positive integers", async () => {
+    const request = await signUp();
+
+    for (const path of ["/api/projects/abc", "/api/projects/0", "/api/runs/1.5", "/api/snapshots/-1", "/api/credentials/x"]) {
+      assert.equal((await request("GET", path)).status, 400, path);
+    }
+  });
+
+  test("hides projects, snapshots and runs from other users", async () => {
+    const owner = await signUp();
+    const intruder = await signUp();
+
+    const project = await owner("POST", "/api/projects", { name: "Landing" });
+    assert.equal(project.status, 201);
+    const run = await owner("POST", `/api/projects/${project.body.id}/runs`, { figmaData, fileKey: "abc" });
+    assert.equal(run.status, 201);
+    const snapshotId = run.body.snapshotId;
+
+    assert.deepEqual((await intruder("GET", "/api/projects")).body, []);
+    for (const [method, path] of [
+      ["GET", `/api/projects/${project.body.id}`],
+      ["PATCH", `/api/projects/${project.body.id}`],
+      ["GET", `/api/projects/${project.body.id}/snapshots`],
+      ["GET", `/api/projects/${project.body.id}/runs`],
+      ["POST", `/api/projects/${project.body.id}/runs`],
+      ["GET", `/api/snapshots/${snapshotId}`],
+      ["DELETE", `/api/snapshots/${snapshotId}`],
+      ["GET", `/api/runs/${run.body.id}`],
+      ["DELETE", `/api/runs/${run.body.id}`],
+      ["DELETE", `/api/projects/${project.body.id}`],
+    ]) {
+      const body = method === "PATCH" ? { name: "Taken" } : method === "POST" ? { figmaData } : undefined;
+      assert.equal((await intruder(method, path, body)).status, 404, `${method} ${path}`);
+    }
+
+    // A stored snapshot can be rerun only inside its own project
+    const rerun = await owner("POST", `/api/projects/${project.body.id}/runs`, { snapshotId });
+    assert.equal(rerun.status, 201);
+    assert.equal(rerun.body.snapshotId, snapshotId);
+    const intruderProject = await intruder("POST", "/api/projects", { name: "Mine" });
+    assert.equal((await intruder("POST", `/api/projects/${intruderProject.body.id}/runs`, { snapshotId })).status, 404);
+
+    // Nothing the intruder tried went through
+    assert.equal((await owner("GET", `/api/projects/${project.body.id}`)).body.name, "Landing");
+    assert.equal((await owner("GET", `/api/snapshots/${snapshotId}`)).status, 200);
+    assert.equal((await owner("GET", `/api/runs/${run.body.id}`)).body.artifacts.length, run.body.artifacts.length);
+  });
+
+  test("hides credentials from other users", async () => {
+    const owner = await signUp();
+    const intruder = await signUp();
+
+    const credential = await owner("POST", "/api/credentials", { label: "Work", token: "figd_secret_token" });
+    assert.equal(credential.status, 201);
+    assert.equal(credential.body.encryptedToken, undefined);
+
+    assert.deepEqual((await intruder("GET", "/api/credentials")).body, []);
+    assert.equal((await intruder("POST", `/api/credentials/${credential.body.id}/rotate`, { token: "figd_other" })).status, 404);
+    assert.equal((await intruder("POST", `/api/credentials/${credential.body.id}/test`)).status, 404);
+    assert.equal((await intruder("DELETE", `/api/credentials/${credential.body.id}`)).status, 404);
+    assert.equal(
+      (await intruder("POST", "/api/generate", { fileKey: "abc", credentialId: credential.body.id })).status,
+      404,
+    );
+    assert.equal((await intruder("DELETE", "/api/figma/cache/abc", { credentialId: credential.body.id })).status, 404);
+
+    const [stored] = (await owner("GET", "/api/credentials")).body;
+    assert.equal(stored.id, credential.body.id);
+    assert.equal(stored.revokedAt, null);
+    assert.equal(stored.tokenHint, credential.body.tokenHint);
+  });
+});
@@ -1,8 +1,54 @@
-import type { Express } from "express";
+import type { Express, RequestHandler, Response } from "express";
+import { z } from "zod";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { insertApiCredentialSchema, insertProjectSchema } from "@shared/schema";
+import { figmaSourceSchema, generateCode, generateRequestSchema, snapshotSourceSchema } from "./generation";
+import { jobs } from "./jobs";
+import { recordRun } from "./history";
+import { requireAuth, setupAuth } from "./auth";
+import {
+  CredentialError,
+  credentialToken,
+  encryptToken,
+  findActiveCredential,
+  publicCredential,
+  tokenHint,
+} from "./credentials";
+import { fetchFigmaFileMeta, fetchFigmaUser, FigmaRequestError } from "./figma";
+import { figmaCache, getFigmaFile } from "./figma-cache";
+
+const tokenSchema = z.string().trim().min(1, "Token is required");
+
+const createCredentialSchema = insertApiCredentialSchema
+  .pick({ label: true })
+  .extend({ token: tokenSchema });
+
+// Serial primary keys; anything else would reach the database as NaN or overflow it
+const idSchema = z.coerce.number().int().positive().max(2147483647);
+
+const requireNumericId: RequestHandler = (req, res, next) => {
+  const parsed = idSchema.safeParse(req.params.id);
+
+  if (!parsed.success) {
+    return res.status(400).json({ error: fromZodError(parsed.error, { prefix: "Invalid id" }).message });
+  }
+
+  next();
+};
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // /api/register, /api/login, /api/logout and /api/user
+  setupAuth(app);
+
+  // Everything except auth and the health check needs a signed-in user
+  app.use(
+    ["/api/figma", "/api/credentials", "/api/generate", "/api/jobs", "/api/projects", "/api/snapshots", "/api/runs"],
+    requireAuth,
+  );
+  app.use(["/api/credentials/:id", "/api/projects/:id", "/api/snapshots/:id", "/api/runs/:id"], requireNumericId);
+
   // Health check endpoint
   app.get("/api/health", (_req, res) => {
     res.json({ status: "ok", timestamp: new Date().toISOString() });
@@ -11,30 +57,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Figma API proxy endpoints (if needed for CORS)
   app.post("/api/figma/file/:fileKey", async (req, res) => {
     try {
-      const { fileKey } = req.params;
-      const { apiKey } = req.body;
+      const { credentialId } = req.body;
 
-      if (!apiKey) {
-        return res.status(400).json({ error: "API key is required" });
+      if (typeof credentialId !== "number") {
+        return res.status(400).json({ error: "credentialId is required" });
       }
 
-      // Proxy request to Figma API
-      const figmaResponse = await fetch(`https://api.figma.com/v1/files/${fileKey}`, {
-        headers: {
-          'X-Figma-Token': apiKey,
-        },
+      const token = await credentialToken(req.user!.id, credentialId);
+      const { data, cache } = await getFigmaFile(req.params.fileKey, token, abortOnClose(res));
+
+      res.setHeader("X-Figma-Cache", cache);
+      res.json(data);
+    } catch (error) {
+      if (sendFigmaError(res, error)) return;
+
+      console.error("Figma API proxy error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Forces the next request for this file to download the full document again.
+  // Only someone Figma would give the file to may purge it.
+  app.delete("/api/figma/cache/:fileKey", async (req, res) => {
+    try {
+      const { credentialId } = req.body ?? {};
+
+      if (typeof credentialId !== "number") {
+        return res.status(400).json({ error: "credentialId is required" });
+      }
+
+      const token = await credentialToken(req.user!.id, credentialId);
+      await fetchFigmaFileMeta(req.params.fileKey, token, abortOnClose(res));
+
+      const removed = await figmaCache.invalidate(req.params.fileKey);
+      res.json({ fileKey: req.params.fileKey, removed });
+    } catch (error) {
+      if (sendFigmaError(res, error)) return;
+
+      console.error("Figma cache purge error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Stored Figma access tokens; the raw token never leaves the server again
+  app.get("/api/credentials", async (req, res) => {
+    try {
+      const credentials = await storage.getCredentials(req.user!.id);
+      res.json(credentials.map(publicCredential));
+    } catch (error) {
+      console.error("Credential error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/credentials", async (req, res) => {
+    try {
+      const parsed = createCredentialSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const credential = await storage.createCredential(req.user!.id, {
+        label: parsed.data.label,
+        encryptedToken: encryptToken(parsed.data.token),
+        tokenHint: tokenHint(parsed.data.token),
       });
+      res.status(201).json(publicCredential(credential));
+    } catch (error) {
+      console.error("Credential error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
 
-      if (!figmaResponse.ok) {
-        return res.status(figmaResponse.status).json({ 
-          error: `Figma API error: ${figmaResponse.statusText}` 
-        });
+  // Asks Figma who the token belongs to; a rejected token is a result, not an error
+  app.post("/api/credentials/:id/test", async (req, res) => {
+    try {
+      const token = await credentialToken(req.user!.id, Number(req.params.id));
+      const user = await fetchFigmaUser(token, abortOnClose(res));
+      res.json({ valid: true, user: { id: user.id, handle: user.handle, email: user.email } });
+    } catch (error) {
+      if (error instanceof FigmaRequestError && (error.status === 401 || error.status === 403)) {
+        return res.json({ valid: false, error: error.message });
       }
+      if (sendFigmaError(res, error)) return;
 
-      const data = await figmaResponse.json();
-      res.json(data);
+      console.error("Credential test error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/credentials/:id/rotate", async (req, res) => {
+    try {
+      const parsed = tokenSchema.safeParse(req.body?.token);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const credential = await findActiveCredential(req.user!.id, Number(req.params.id));
+
+      if (!credential) {
+        return res.status(404).json({ error: "Credential not found" });
+      }
+
+      const rotated = await storage.updateCredential(credential.id, {
+        encryptedToken: encryptToken(parsed.data),
+        tokenHint: tokenHint(parsed.data),
+      });
+      res.json(publicCredential(rotated!));
     } catch (error) {
-      console.error("Figma API proxy error:", error);
+      console.error("Credential error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Revoking keeps the record for the list but drops the secret itself
+  app.delete("/api/credentials/:id", async (req, res) => {
+    try {
+      const credential = await findActiveCredential(req.user!.id, Number(req.params.id));
+
+      if (!credential) {
+        return res.status(404).json({ error: "Credential not found" });
+      }
+
+      await storage.updateCredential(credential.id, { encryptedToken: "", revokedAt: new Date() });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Credential error:", error);
       res.status(500).json({ error: "Internal server error" });
     }
   });
@@ -42,118 +192,350 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Code generation endpoint
   app.post("/api/generate", async (req, res) => {
     try {
-      const { figmaData, customJsx, customCss, fullCss } = req.body;
-
-      if (!figmaData) {
-        return res.status(400).json({ error: "Figma data is required" });
-      }
-
-      // Here you would implement the actual code generation logic
-      // For now, we'll return a mock response
-      const generatedResult = {
-        jsx: generateMockJSX(figmaData),
-        css: generateMockCSS(figmaData, customCss, fullCss),
-        typescript: generateMockTypeScript(figmaData.name),
-        componentName: figmaData.name?.replace(/[^a-zA-Z0-9]/g, '') || 'GeneratedComponent',
-        figmaInfo: {
-          name: figmaData.name,
-          lastModified: figmaData.lastModified,
-          nodeCount: countNodes(figmaData.document),
-          fileKey: 'extracted-from-request'
-        },
-        accessibility: {
-          score: 88,
-          wcagCompliance: 'AA',
-          issues: [],
-          suggestions: ['Add focus states for better keyboard navigation']
-        },
-        responsive: {
-          hasResponsiveDesign: true
-        },
-        metadata: {
-          estimatedAccuracy: 94,
-          componentType: 'form',
-          complexity: 'medium',
-          generationTime: Date.now(),
-          dependencies: ['react', '@types/react', 'tailwindcss']
+      const body = await withFigmaData(req.user!.id, req.body, abortOnClose(res));
+      const parsed = generateRequestSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.json(generateCode(parsed.data));
+    } catch (error) {
+      if (sendFigmaError(res, error)) return;
+
+      console.error("Code generation error:", error);
+      res.status(500).json({ error: "Code generation failed" });
+    }
+  });
+
+  // Asynchronous generation jobs
+  app.post("/api/jobs", async (req, res) => {
+    try {
+      const body = await withFigmaData(req.user!.id, req.body, abortOnClose(res));
+      const parsed = generateRequestSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      if (parsed.data.projectId !== undefined && !(await findOwnedProject(req.user!.id, parsed.data.projectId))) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      res.status(202).json(jobs.create(parsed.data, req.user!.id));
+    } catch (error) {
+      if (sendFigmaError(res, error)) return;
+
+      console.error("Job creation error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = jobs.get(req.params.id, req.user!.id);
+
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.json(job);
+  });
+
+  // Server-Sent Events stream of phase progress, ending with a result, failed or cancelled event
+  app.get("/api/jobs/:id/events", (req, res) => {
+    if (!jobs.get(req.params.id, req.user!.id)) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const unsubscribe = jobs.subscribe(req.params.id, req.user!.id, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+      if (event.type !== "phase") {
+        res.end();
+      }
+    });
+
+    res.on("close", () => unsubscribe?.());
+  });
+
+  app.post("/api/jobs/:id/cancel", (req, res) => {
+    const job = jobs.cancel(req.params.id, req.user!.id);
+
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.status(202).json(job);
+  });
+
+  // Projects
+  app.get("/api/projects", async (req, res) => {
+    try {
+      res.json(await storage.getProjects(req.user!.id));
+    } catch (error) {
+      console.error("Project error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects", async (req, res) => {
+    try {
+      const parsed = insertProjectSchema.safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      res.status(201).json(await storage.createProject(req.user!.id, parsed.data));
+    } catch (error) {
+      console.error("Project error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id", async (req, res) => {
+    try {
+      const project = await findOwnedProject(req.user!.id, Number(req.params.id));
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      res.json(project);
+    } catch (error) {
+      console.error("Project error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:id", async (req, res) => {
+    try {
+      const parsed = insertProjectSchema.partial().safeParse(req.body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const project = await findOwnedProject(req.user!.id, Number(req.params.id));
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      res.json(await storage.updateProject(project.id, parsed.data));
+    } catch (error) {
+      console.error("Project error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:id", async (req, res) => {
+    try {
+      const project = await findOwnedProject(req.user!.id, Number(req.params.id));
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      await storage.deleteProject(project.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Project error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // File snapshots
+  app.get("/api/projects/:id/snapshots", async (req, res) => {
+    try {
+      const project = await findOwnedProject(req.user!.id, Number(req.params.id));
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      // The stored documents can be huge; list views only need the metadata
+      const snapshots = await storage.getSnapshots(project.id);
+      res.json(snapshots.map(({ data: _data, ...snapshot }) => snapshot));
+    } catch (error) {
+      console.error("Snapshot error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.get("/api/snapshots/:id", async (req, res) => {
+    try {
+      const snapshot = await findOwnedSnapshot(req.user!.id, Number(req.params.id));
+
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      res.json(snapshot);
+    } catch (error) {
+      console.error("Snapshot error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/snapshots/:id", async (req, res) => {
+    try {
+      const snapshot = await findOwnedSnapshot(req.user!.id, Number(req.params.id));
+
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+
+      await storage.deleteSnapshot(snapshot.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Snapshot error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Generation runs
+  app.get("/api/projects/:id/runs", async (req, res) => {
+    try {
+      const project = await findOwnedProject(req.user!.id, Number(req.params.id));
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      res.json(await storage.getRuns(project.id));
+    } catch (error) {
+      console.error("Run error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Generates synchronously from either a stored snapshot or a posted file
+  app.post("/api/projects/:id/runs", async (req, res) => {
+    try {
+      const project = await findOwnedProject(req.user!.id, Number(req.params.id));
+
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+
+      let body: unknown;
+      const source = snapshotSourceSchema.passthrough().safeParse(req.body);
+      if (source.success) {
+        const snapshot = await storage.getSnapshot(source.data.snapshotId);
+
+        if (!snapshot || snapshot.projectId !== project.id) {
+          return res.status(404).json({ error: "Snapshot not found" });
         }
-      };
 
-      res.json(generatedResult);
+        body = { ...source.data, figmaData: snapshot.data, fileKey: snapshot.fileKey };
+      } else {
+        body = await withFigmaData(req.user!.id, req.body, abortOnClose(res));
+      }
+
+      const parsed = generateRequestSchema.safeParse(body);
+
+      if (!parsed.success) {
+        return res.status(400).json({ error: fromZodError(parsed.error).message });
+      }
+
+      const run = await recordRun(project.id, parsed.data, generateCode(parsed.data));
+      res.status(201).json(run);
     } catch (error) {
+      if (sendFigmaError(res, error)) return;
+
       console.error("Code generation error:", error);
       res.status(500).json({ error: "Code generation failed" });
     }
   });
 
+  app.get("/api/runs/:id", async (req, res) => {
+    try {
+      const run = await findOwnedRun(req.user!.id, Number(req.params.id));
+
+      if (!run) {
+        return res.status(404).json({ error: "Run not found" });
+      }
+
+      res.json(run);
+    } catch (error) {
+      console.error("Run error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/runs/:id", async (req, res) => {
+    try {
+      const run = await findOwnedRun(req.user!.id, Number(req.params.id));
+
+      if (!run) {
+        return res.status(404).json({ error: "Run not found" });
+      }
+
+      await storage.deleteRun(run.id);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Run error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
 
-function generateMockJSX(figmaData: any): string {
-  const componentName = figmaData.name?.replace(/[^a-zA-Z0-9]/g, '') || 'GeneratedComponent';
-  
-  return `import React, { useState } from 'react';
-
-interface ${componentName}Props {
-  className?: string;
+// Other users' resources are reported as missing rather than forbidden,
+// so ids can't be probed across accounts
+async function findOwnedProject(userId: number, id: number) {
+  const project = await storage.getProject(id);
+  return project?.userId === userId ? project : undefined;
 }
 
-export function ${componentName}({ className }: ${componentName}Props) {
-  return (
-    <div className={\`generated-component \${className}\`}>
-      <h1>Generated from Figma: ${figmaData.name}</h1>
-      <p>This is a generated component based on your Figma design.</p>
-    </div>
-  );
-}`;
+async function findOwnedSnapshot(userId: number, id: number) {
+  const snapshot = await storage.getSnapshot(id);
+  return snapshot && (await findOwnedProject(userId, snapshot.projectId)) ? snapshot : undefined;
 }
 
-function generateMockCSS(figmaData: any, customCss?: string, fullCss?: string): string {
-  let css = `/* Generated CSS for ${figmaData.name} */
-.generated-component {
-  padding: 1rem;
-  border-radius: 8px;
-  background: white;
-  box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);
+async function findOwnedRun(userId: number, id: number) {
+  const run = await storage.getRun(id);
+  return run && (await findOwnedProject(userId, run.projectId)) ? run : undefined;
 }
 
-.generated-component h1 {
-  font-size: 1.5rem;
-  font-weight: bold;
-  margin-bottom: 0.5rem;
-  color: hsl(20, 14.3%, 4.1%);
+// Aborts the upstream Figma download when the browser gives up on us
+function abortOnClose(res: Response): AbortSignal {
+  const upstream = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) upstream.abort();
+  });
+  return upstream.signal;
 }
 
-.generated-component p {
-  color: hsl(25, 5.3%, 44.7%);
-}`;
+// Generation requests may carry { fileKey, credentialId } instead of the document itself
+// and is left for generateRequestSchema to validate either way
+async function withFigmaData(userId: number, body: unknown, signal: AbortSignal): Promise<unknown> {
+  const source = figmaSourceSchema.passthrough().safeParse(body);
+  if (!source.success || source.data.figmaData !== undefined) return body;
 
-  if (customCss) {
-    css += `\n\n/* Custom CSS */\n${customCss}`;
-  }
-
-  if (fullCss) {
-    css += `\n\n/* Advanced CSS */\n${fullCss}`;
-  }
-
-  return css;
+  const token = await credentialToken(userId, source.data.credentialId);
+  const { data } = await getFigmaFile(source.data.fileKey, token, signal);
+  return { ...source.data, figmaData: data };
 }
 
-function generateMockTypeScript(componentName: string): string {
-  return `export interface ${componentName}Props {
-  className?: string;
-  children?: React.ReactNode;
-}`;
-}
+// Answers credential and upstream Figma failures; returns false for anything else
+function sendFigmaError(res: Response, error: unknown): boolean {
+  if (error instanceof Error && error.name === "AbortError") {
+    return true;
+  }
 
-function countNodes(node: any): number {
-  if (!node) return 0;
-  
-  let count = 1;
-  if (node.children) {
-    count += node.children.reduce((sum: number, child: any) => sum + countNodes(child), 0);
+  if (error instanceof CredentialError || error instanceof FigmaRequestError) {
+    res.status(error.status).json({ error: error.message });
+    return true;
   }
-  
-  return count;
+
+  return false;
 }
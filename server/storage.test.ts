@@ -0,0 +1,106 @@
+import { after, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { randomBytes } from "crypto";
+import { isUniqueViolation, MemStorage, PgStorage, type IStorage } from "./storage";
+import { createDb } from "./db";
+
+// The same contract for both backends. PgStorage runs against TEST_DATABASE_URL,
+// a throwaway database with the schema pushed (`DATABASE_URL=... npm run db:push`).
+function storageContract(createStorage: () => IStorage) {
+  const storage = createStorage();
+  const username = () => `contract-${randomBytes(6).toString("hex")}`;
+
+  test("creates and finds users", async () => {
+    const name = username();
+    const user = await storage.createUser({ username: name, password: "hash.salt" });
+
+    assert.deepEqual(await storage.getUser(user.id), user);
+    assert.deepEqual(await storage.getUserByUsername(name), user);
+    assert.equal(await storage.getUserByUsername(username()), undefined);
+  });
+
+  test("rejects a taken username as a unique violation", async () => {
+    const name = username();
+    await storage.createUser({ username: name, password: "x" });
+
+    await assert.rejects(storage.createUser({ username: name, password: "y" }), isUniqueViolation);
+  });
+
+  test("scopes projects to their owner", async () => {
+    const owner = await storage.createUser({ username: username(), password: "x" });
+    const other = await storage.createUser({ username: username(), password: "x" });
+    const project = await storage.createProject(owner.id, { name: "Landing" });
+
+    assert.equal(project.userId, owner.id);
+    assert.equal(project.description, null);
+    assert.deepEqual((await storage.getProjects(owner.id)).map((p) => p.id), [project.id]);
+    assert.deepEqual(await storage.getProjects(other.id), []);
+
+    const renamed = await storage.updateProject(project.id, { name: "Pricing" });
+    assert.equal(renamed?.name, "Pricing");
+    assert.equal((await storage.getProject(project.id))?.name, "Pricing");
+    assert.equal(await storage.updateProject(2147483647, { name: "Nope" }), undefined);
+  });
+
+  test("keeps runs when their snapshot goes and drops everything with the project", async () => {
+    const user = await storage.createUser({ username: username(), password: "x" });
+    const project = await storage.createProject(user.id, { name: "Cascade" });
+    const snapshot = await storage.createSnapshot({
+      projectId: project.id,
+      fileKey: "abc",
+      version: "1",
+      name: "File",
+      data: { document: { id: "0:0" } },
+    });
+
+    assert.deepEqual(await storage.findSnapshot(project.id, "abc", "1"), snapshot);
+    assert.equal(await storage.findSnapshot(project.id, "abc", "2"), undefined);
+
+    const run = await storage.createRun(
+      { projectId: project.id, snapshotId: snapshot.id, fileKey: "abc", version: "1", options: {} },
+      [{ componentId: "1:2", componentName: "Card", path: "Card.tsx", content: "export {}" }],
+    );
+    assert.equal(run.artifacts.length, 1);
+    assert.equal(run.artifacts[0].runId, run.id);
+    assert.deepEqual(await storage.getRun(run.id), run);
+
+    assert.equal(await storage.deleteSnapshot(snapshot.id), true);
+    assert.equal(await storage.deleteSnapshot(snapshot.id), false);
+    assert.equal((await storage.getRun(run.id))?.snapshotId, null);
+
+    assert.equal(await storage.deleteProject(project.id), true);
+    assert.equal(await storage.getProject(project.id), undefined);
+    assert.equal(await storage.getRun(run.id), undefined);
+    assert.deepEqual(await storage.getRuns(project.id), []);
+  });
+
+  test("stores and updates credentials", async () => {
+    const user = await storage.createUser({ username: username(), password: "x" });
+    const credential = await storage.createCredential(user.id, {
+      label: "Work",
+      encryptedToken: "v1:a:b:c",
+      tokenHint: "…abcd",
+    });
+
+    assert.equal(credential.provider, "figma");
+    assert.equal(credential.revokedAt, null);
+    assert.deepEqual((await storage.getCredentials(user.id)).map((c) => c.id), [credential.id]);
+
+    const revokedAt = new Date();
+    const revoked = await storage.updateCredential(credential.id, { encryptedToken: "", revokedAt });
+    assert.equal(revoked?.encryptedToken, "");
+    assert.equal(revoked?.revokedAt?.getTime(), revokedAt.getTime());
+    assert.equal(await storage.updateCredential(2147483647, { label: "Nope" }), undefined);
+  });
+}
+
+describe("MemStorage", () => {
+  storageContract(() => new MemStorage());
+});
+
+describe("PgStorage", { skip: !process.env.TEST_DATABASE_URL && "TEST_DATABASE_URL is not set" }, () => {
+  const db = createDb(process.env.TEST_DATABASE_URL ?? "");
+  after(() => db.$client.end());
+
+  storageContract(() => new PgStorage(db));
+});
@@ -1,21 +1,99 @@
-import { users, type User, type InsertUser } from "@shared/schema";
+import { and, asc, eq } from "drizzle-orm";
+import {
+  users,
+  projects,
+  fileSnapshots,
+  generationRuns,
+  artifacts,
+  apiCredentials,
+  type User,
+  type InsertUser,
+  type Project,
+  type InsertProject,
+  type FileSnapshot,
+  type InsertFileSnapshot,
+  type GenerationRun,
+  type InsertGenerationRun,
+  type Artifact,
+  type InsertArtifact,
+  type GenerationRunWithArtifacts,
+  type ApiCredential,
+  type InsertApiCredential,
+} from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { createDb, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+
+  getProjects(userId: number): Promise<Project[]>;
+  getProject(id: number): Promise<Project | undefined>;
+  createProject(userId: number, project: InsertProject): Promise<Project>;
+  updateProject(id: number, project: Partial<InsertProject>): Promise<Project | undefined>;
+  deleteProject(id: number): Promise<boolean>;
+
+  getSnapshots(projectId: number): Promise<FileSnapshot[]>;
+  getSnapshot(id: number): Promise<FileSnapshot | undefined>;
+  findSnapshot(projectId: number, fileKey: string, version: string): Promise<FileSnapshot | undefined>;
+  createSnapshot(snapshot: InsertFileSnapshot): Promise<FileSnapshot>;
+  deleteSnapshot(id: number): Promise<boolean>;
+
+  getRuns(projectId: number): Promise<GenerationRun[]>;
+  getRun(id: number): Promise<GenerationRunWithArtifacts | undefined>;
+  createRun(run: InsertGenerationRun, files: InsertArtifact[]): Promise<GenerationRunWithArtifacts>;
+  deleteRun(id: number): Promise<boolean>;
+
+  getCredentials(userId: number): Promise<ApiCredential[]>;
+  getCredential(id: number): Promise<ApiCredential | undefined>;
+  createCredential(userId: number, credential: InsertApiCredential): Promise<ApiCredential>;
+  updateCredential(id: number, update: CredentialUpdate): Promise<ApiCredential | undefined>;
 }
 
+// Postgres' unique_violation; MemStorage raises the same code for a taken username
+const UNIQUE_VIOLATION = "23505";
+
+export function isUniqueViolation(error: unknown): boolean {
+  const code = (value: unknown) => (value as { code?: unknown } | null)?.code;
+  return code(error) === UNIQUE_VIOLATION || code((error as { cause?: unknown } | null)?.cause) === UNIQUE_VIOLATION;
+}
+
+export type CredentialUpdate = Partial<
+  Pick<ApiCredential, "label" | "encryptedToken" | "tokenHint" | "lastUsedAt" | "revokedAt">
+>;
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private projects: Map<number, Project>;
+  private snapshots: Map<number, FileSnapshot>;
+  private runs: Map<number, GenerationRun>;
+  private artifacts: Map<number, Artifact>;
+  private credentials: Map<number, ApiCredential>;
   currentId: number;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.projects = new Map();
+    this.snapshots = new Map();
+    this.runs = new Map();
+    this.artifacts = new Map();
+    this.credentials = new Map();
     this.currentId = 1;
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -29,11 +107,358 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw Object.assign(new Error("duplicate key value violates unique constraint \"users_username_unique\""), {
+        code: UNIQUE_VIOLATION,
+      });
+    }
+
     const id = this.currentId++;
     const user: User = { ...insertUser, id };
     this.users.set(id, user);
     return user;
   }
+
+  async getProjects(userId: number): Promise<Project[]> {
+    return Array.from(this.projects.values()).filter(
+      (project) => project.userId === userId,
+    );
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    return this.projects.get(id);
+  }
+
+  async createProject(userId: number, insertProject: InsertProject): Promise<Project> {
+    const id = this.currentId++;
+    const now = new Date();
+    const project: Project = {
+      description: null,
+      figmaFileKey: null,
+      ...insertProject,
+      id,
+      userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.projects.set(id, project);
+    return project;
+  }
+
+  async updateProject(id: number, update: Partial<InsertProject>): Promise<Project | undefined> {
+    const project = this.projects.get(id);
+    if (!project) return undefined;
+
+    const updated: Project = { ...project, ...update, updatedAt: new Date() };
+    this.projects.set(id, updated);
+    return updated;
+  }
+
+  // Mirrors the ON DELETE CASCADE of the SQL schema
+  async deleteProject(id: number): Promise<boolean> {
+    if (!this.projects.delete(id)) return false;
+
+    for (const run of Array.from(this.runs.values())) {
+      if (run.projectId === id) await this.deleteRun(run.id);
+    }
+    for (const snapshot of Array.from(this.snapshots.values())) {
+      if (snapshot.projectId === id) this.snapshots.delete(snapshot.id);
+    }
+    return true;
+  }
+
+  async getSnapshots(projectId: number): Promise<FileSnapshot[]> {
+    return Array.from(this.snapshots.values()).filter(
+      (snapshot) => snapshot.projectId === projectId,
+    );
+  }
+
+  async getSnapshot(id: number): Promise<FileSnapshot | undefined> {
+    return this.snapshots.get(id);
+  }
+
+  async findSnapshot(projectId: number, fileKey: string, version: string): Promise<FileSnapshot | undefined> {
+    return Array.from(this.snapshots.values()).find(
+      (snapshot) =>
+        snapshot.projectId === projectId &&
+        snapshot.fileKey === fileKey &&
+        snapshot.version === version,
+    );
+  }
+
+  async createSnapshot(insertSnapshot: InsertFileSnapshot): Promise<FileSnapshot> {
+    const id = this.currentId++;
+    const snapshot: FileSnapshot = {
+      lastModified: null,
+      nodeCount: 0,
+      ...insertSnapshot,
+      id,
+      createdAt: new Date(),
+    };
+    this.snapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async deleteSnapshot(id: number): Promise<boolean> {
+    if (!this.snapshots.delete(id)) return false;
+
+    // Runs outlive their snapshot, like ON DELETE SET NULL
+    this.runs.forEach((run, runId) => {
+      if (run.snapshotId === id) this.runs.set(runId, { ...run, snapshotId: null });
+    });
+    return true;
+  }
+
+  async getRuns(projectId: number): Promise<GenerationRun[]> {
+    return Array.from(this.runs.values()).filter(
+      (run) => run.projectId === projectId,
+    );
+  }
+
+  async getRun(id: number): Promise<GenerationRunWithArtifacts | undefined> {
+    const run = this.runs.get(id);
+    if (!run) return undefined;
+
+    return { ...run, artifacts: this.getArtifacts(id) };
+  }
+
+  async createRun(insertRun: InsertGenerationRun, files: InsertArtifact[]): Promise<GenerationRunWithArtifacts> {
+    const id = this.currentId++;
+    const run: GenerationRun = {
+      snapshotId: null,
+      quality: null,
+      componentCount: 0,
+      ...insertRun,
+      id,
+      createdAt: new Date(),
+    };
+    this.runs.set(id, run);
+
+    files.forEach((file) => {
+      const artifactId = this.currentId++;
+      this.artifacts.set(artifactId, { ...file, id: artifactId, runId: id });
+    });
+
+    return { ...run, artifacts: this.getArtifacts(id) };
+  }
+
+  async deleteRun(id: number): Promise<boolean> {
+    if (!this.runs.delete(id)) return false;
+
+    this.artifacts.forEach((artifact, artifactId) => {
+      if (artifact.runId === id) this.artifacts.delete(artifactId);
+    });
+    return true;
+  }
+
+  async getCredentials(userId: number): Promise<ApiCredential[]> {
+    return Array.from(this.credentials.values()).filter(
+      (credential) => credential.userId === userId,
+    );
+  }
+
+  async getCredential(id: number): Promise<ApiCredential | undefined> {
+    return this.credentials.get(id);
+  }
+
+  async createCredential(userId: number, insertCredential: InsertApiCredential): Promise<ApiCredential> {
+    const id = this.currentId++;
+    const credential: ApiCredential = {
+      provider: "figma",
+      ...insertCredential,
+      id,
+      userId,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.credentials.set(id, credential);
+    return credential;
+  }
+
+  async updateCredential(id: number, update: CredentialUpdate): Promise<ApiCredential | undefined> {
+    const credential = this.credentials.get(id);
+    if (!credential) return undefined;
+
+    const updated: ApiCredential = { ...credential, ...update };
+    this.credentials.set(id, updated);
+    return updated;
+  }
+
+  private getArtifacts(runId: number): Artifact[] {
+    return Array.from(this.artifacts.values()).filter(
+      (artifact) => artifact.runId === runId,
+    );
+  }
+}
+
+export class PgStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getProjects(userId: number): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(eq(projects.userId, userId))
+      .orderBy(asc(projects.id));
+  }
+
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async createProject(userId: number, insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values({ ...insertProject, userId }).returning();
+    return project;
+  }
+
+  async updateProject(id: number, update: Partial<InsertProject>): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...update, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(projects).where(eq(projects.id, id)).returning({ id: projects.id });
+    return deleted.length > 0;
+  }
+
+  async getSnapshots(projectId: number): Promise<FileSnapshot[]> {
+    return this.db
+      .select()
+      .from(fileSnapshots)
+      .where(eq(fileSnapshots.projectId, projectId))
+      .orderBy(asc(fileSnapshots.id));
+  }
+
+  async getSnapshot(id: number): Promise<FileSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(fileSnapshots).where(eq(fileSnapshots.id, id));
+    return snapshot;
+  }
+
+  async findSnapshot(projectId: number, fileKey: string, version: string): Promise<FileSnapshot | undefined> {
+    const [snapshot] = await this.db
+      .select()
+      .from(fileSnapshots)
+      .where(and(
+        eq(fileSnapshots.projectId, projectId),
+        eq(fileSnapshots.fileKey, fileKey),
+        eq(fileSnapshots.version, version),
+      ))
+      .limit(1);
+    return snapshot;
+  }
+
+  async createSnapshot(insertSnapshot: InsertFileSnapshot): Promise<FileSnapshot> {
+    const [snapshot] = await this.db.insert(fileSnapshots).values(insertSnapshot).returning();
+    return snapshot;
+  }
+
+  async deleteSnapshot(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(fileSnapshots)
+      .where(eq(fileSnapshots.id, id))
+      .returning({ id: fileSnapshots.id });
+    return deleted.length > 0;
+  }
+
+  async getRuns(projectId: number): Promise<GenerationRun[]> {
+    return this.db
+      .select()
+      .from(generationRuns)
+      .where(eq(generationRuns.projectId, projectId))
+      .orderBy(asc(generationRuns.id));
+  }
+
+  async getRun(id: number): Promise<GenerationRunWithArtifacts | undefined> {
+    const [run] = await this.db.select().from(generationRuns).where(eq(generationRuns.id, id));
+    if (!run) return undefined;
+
+    const files = await this.db
+      .select()
+      .from(artifacts)
+      .where(eq(artifacts.runId, id))
+      .orderBy(asc(artifacts.id));
+    return { ...run, artifacts: files };
+  }
+
+  // The run and its files are written together or not at all
+  async createRun(insertRun: InsertGenerationRun, files: InsertArtifact[]): Promise<GenerationRunWithArtifacts> {
+    return this.db.transaction(async (tx) => {
+      const [run] = await tx.insert(generationRuns).values(insertRun).returning();
+      const saved = files.length > 0
+        ? await tx.insert(artifacts).values(files.map((file) => ({ ...file, runId: run.id }))).returning()
+        : [];
+      return { ...run, artifacts: saved };
+    });
+  }
+
+  async deleteRun(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(generationRuns)
+      .where(eq(generationRuns.id, id))
+      .returning({ id: generationRuns.id });
+    return deleted.length > 0;
+  }
+
+  async getCredentials(userId: number): Promise<ApiCredential[]> {
+    return this.db
+      .select()
+      .from(apiCredentials)
+      .where(eq(apiCredentials.userId, userId))
+      .orderBy(asc(apiCredentials.id));
+  }
+
+  async getCredential(id: number): Promise<ApiCredential | undefined> {
+    const [credential] = await this.db.select().from(apiCredentials).where(eq(apiCredentials.id, id));
+    return credential;
+  }
+
+  async createCredential(userId: number, insertCredential: InsertApiCredential): Promise<ApiCredential> {
+    const [credential] = await this.db
+      .insert(apiCredentials)
+      .values({ ...insertCredential, userId })
+      .returning();
+    return credential;
+  }
+
+  async updateCredential(id: number, update: CredentialUpdate): Promise<ApiCredential | undefined> {
+    const [credential] = await this.db
+      .update(apiCredentials)
+      .set(update)
+      .where(eq(apiCredentials.id, id))
+      .returning();
+    return credential;
+  }
 }
 
-export const storage = new MemStorage();
+// Postgres when DATABASE_URL is configured, otherwise everything lives in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new PgStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
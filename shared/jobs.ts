@@ -0,0 +1,51 @@
+// Wire format of the generation job API, shared by the server and the browser.
+
+export type JobStatus = "queued" | "running" | "completed" | "error" | "cancelled";
+
+export type PhaseStatus = "pending" | "processing" | "completed" | "error" | "cancelled";
+
+export interface JobPhase {
+  id: number;
+  name: string;
+  status: PhaseStatus;
+  progress: number;
+  error?: string;
+}
+
+export const JOB_PHASES: ReadonlyArray<Pick<JobPhase, "id" | "name">> = [
+  { id: 1, name: "Figma Analysis" },
+  { id: 2, name: "Code Generation" },
+  { id: 3, name: "Quality Assessment" },
+];
+
+// Shaped like the client's phase reducer actions so events can be dispatched as-is.
+export interface PhaseEvent {
+  type: "start" | "progress" | "complete" | "error" | "cancel";
+  phaseId: number;
+  payload?: {
+    progress?: number;
+    error?: string;
+  };
+  node?: {
+    id: string;
+    name: string;
+    index: number;
+    total: number;
+  };
+}
+
+export type JobStreamEvent<TResult = unknown> =
+  | { type: "phase"; data: PhaseEvent }
+  | { type: "result"; data: TResult }
+  | { type: "failed"; data: { error: string } }
+  | { type: "cancelled"; data: Record<string, never> };
+
+export interface JobSnapshot<TResult = unknown> {
+  id: string;
+  status: JobStatus;
+  phases: JobPhase[];
+  result?: TResult;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
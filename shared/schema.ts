@@ -0,0 +1,134 @@
+import { pgTable, text, serial, integer, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+});
+
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  figmaFileKey: text("figma_file_key"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("projects_user_idx").on(table.userId),
+]);
+
+// A Figma document as it was at one `version`, so runs can be reproduced later
+export const fileSnapshots = pgTable("file_snapshots", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  fileKey: text("file_key").notNull(),
+  version: text("version").notNull(),
+  name: text("name").notNull(),
+  lastModified: text("last_modified"),
+  nodeCount: integer("node_count").notNull().default(0),
+  // the whole GET /v1/files/:key response
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("file_snapshots_lookup_idx").on(table.projectId, table.fileKey, table.version),
+]);
+
+export const generationRuns = pgTable("generation_runs", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  snapshotId: integer("snapshot_id").references(() => fileSnapshots.id, { onDelete: "set null" }),
+  fileKey: text("file_key").notNull(),
+  version: text("version").notNull(),
+  options: jsonb("options").$type<Record<string, unknown>>().notNull(),
+  quality: jsonb("quality").$type<Record<string, unknown>>(),
+  componentCount: integer("component_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("generation_runs_project_idx").on(table.projectId),
+]);
+
+// One emitted file of a run (component source, stylesheet, type declarations, ...)
+export const artifacts = pgTable("artifacts", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => generationRuns.id, { onDelete: "cascade" }),
+  componentId: text("component_id").notNull(),
+  componentName: text("component_name").notNull(),
+  path: text("path").notNull(),
+  content: text("content").notNull(),
+}, (table) => [
+  index("artifacts_run_idx").on(table.runId),
+]);
+
+// Third-party access tokens (Figma personal access tokens), encrypted at rest
+export const apiCredentials = pgTable("api_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull().default("figma"),
+  label: text("label").notNull(),
+  encryptedToken: text("encrypted_token").notNull(),
+  tokenHint: text("token_hint").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+}, (table) => [
+  index("api_credentials_user_idx").on(table.userId),
+]);
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+});
+
+export const insertProjectSchema = createInsertSchema(projects).pick({
+  name: true,
+  description: true,
+  figmaFileKey: true,
+});
+
+export const insertFileSnapshotSchema = createInsertSchema(fileSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGenerationRunSchema = createInsertSchema(generationRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertArtifactSchema = createInsertSchema(artifacts).omit({
+  id: true,
+  runId: true,
+});
+
+export const insertApiCredentialSchema = createInsertSchema(apiCredentials).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Project = typeof projects.$inferSelect;
+
+export type InsertFileSnapshot = z.infer<typeof insertFileSnapshotSchema>;
+export type FileSnapshot = typeof fileSnapshots.$inferSelect;
+
+export type InsertGenerationRun = z.infer<typeof insertGenerationRunSchema>;
+export type GenerationRun = typeof generationRuns.$inferSelect;
+
+export type InsertArtifact = z.infer<typeof insertArtifactSchema>;
+export type Artifact = typeof artifacts.$inferSelect;
+
+export type InsertApiCredential = z.infer<typeof insertApiCredentialSchema>;
+export type ApiCredential = typeof apiCredentials.$inferSelect;
+// What the browser gets to see of a stored credential
+export type PublicApiCredential = Omit<ApiCredential, "encryptedToken">;
+
+export type GenerationRunWithArtifacts = GenerationRun & { artifacts: Artifact[] };